@@ -1,10 +1,11 @@
 /**
  * Authentication middleware
  *
- * Protects dashboard routes with HTTP Basic Auth or session cookie
+ * Protects dashboard routes with HTTP Basic Auth, session cookie or API token
  */
 
-import type { Env } from '../src/types';
+import type { Env, TokenScope } from '../src/types';
+import { validateApiToken } from '../src/lib/tokens';
 
 // Session cookie name
 const SESSION_COOKIE = 'gc_session';
@@ -15,11 +16,35 @@ const SESSION_TTL = 7 * 24 * 60 * 60;
 // Public paths that don't require auth
 const PUBLIC_PATHS = [
   '/api/count',
+  '/api/error',
+  '/share/',
   '/count.js',
   '/login',
   '/favicon.ico',
 ];
 
+// Dashboard pages that redirect to the login form instead of prompting for Basic Auth
+const DASHBOARD_PATHS = [
+  '/dashboard',
+  '/sites',
+  '/goals',
+  '/funnels',
+  '/sharing',
+  '/tokens',
+  '/import',
+];
+
+// Scope an API token needs for each route; tokens are rejected everywhere else
+const TOKEN_ROUTES: [string, TokenScope][] = [
+  ['/api/v0/stats', 'stats'],
+  ['/api/v0/export', 'export'],
+  ['/api/v0/import', 'settings'],
+  ['/sites', 'settings'],
+  ['/goals', 'settings'],
+  ['/funnels', 'settings'],
+  ['/sharing', 'settings'],
+];
+
 // Static asset extensions
 const STATIC_EXTENSIONS = ['.js', '.css', '.png', '.jpg', '.gif', '.ico', '.svg', '.woff', '.woff2'];
 
@@ -48,8 +73,13 @@ export const onRequest: PagesFunction<Env> = async (context) => {
     }
   }
 
-  // Check for HTTP Basic Auth
+  // Check for API token
   const authHeader = request.headers.get('Authorization');
+  if (authHeader && authHeader.toLowerCase().startsWith('bearer ')) {
+    return authenticateToken(context, authHeader.slice(7).trim(), url.pathname);
+  }
+
+  // Check for HTTP Basic Auth
   if (authHeader) {
     const isValid = validateBasicAuth(authHeader, env.DASHBOARD_PASSWORD);
     if (isValid) {
@@ -69,7 +99,7 @@ export const onRequest: PagesFunction<Env> = async (context) => {
   }
 
   // No valid auth - redirect to login or prompt for Basic Auth
-  if (url.pathname === '/' || url.pathname.startsWith('/dashboard')) {
+  if (url.pathname === '/' || isDashboardPath(url.pathname)) {
     // For dashboard, redirect to login page
     return Response.redirect(new URL('/login', url.origin).toString(), 302);
   }
@@ -84,6 +114,39 @@ export const onRequest: PagesFunction<Env> = async (context) => {
   });
 };
 
+/**
+ * Authenticate a request presenting an API token
+ */
+async function authenticateToken(
+  context: EventContext<Env, string, unknown>,
+  token: string,
+  pathname: string
+): Promise<Response> {
+  const scopes = await validateApiToken(context.env.DB, token);
+  if (!scopes) {
+    return new Response('Invalid API token', {
+      status: 401,
+      headers: {
+        'WWW-Authenticate': 'Bearer realm="CloudCounter"',
+        'Content-Type': 'text/plain'
+      }
+    });
+  }
+
+  const route = TOKEN_ROUTES.find(([path]) => pathname.startsWith(path));
+  if (!route || !scopes.includes(route[1])) {
+    const message = route
+      ? `API token lacks the "${route[1]}" scope`
+      : 'API tokens cannot access this route';
+    return new Response(message, {
+      status: 403,
+      headers: { 'Content-Type': 'text/plain' }
+    });
+  }
+
+  return context.next();
+}
+
 /**
  * Check if path is public
  */
@@ -91,6 +154,13 @@ function isPublicPath(pathname: string): boolean {
   return PUBLIC_PATHS.some(path => pathname.startsWith(path));
 }
 
+/**
+ * Check if path is a dashboard page
+ */
+function isDashboardPath(pathname: string): boolean {
+  return DASHBOARD_PATHS.some(path => pathname.startsWith(path));
+}
+
 /**
  * Check if path is a static asset
  */
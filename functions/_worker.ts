@@ -59,6 +59,11 @@ async function runDailyCleanup(env: Env): Promise<void> {
         DELETE FROM hit_stats WHERE day < ?
       `).bind(cutoffDay).run();
 
+      // Delete old visitor_stats
+      await db.prepare(`
+        DELETE FROM visitor_stats WHERE day < ?
+      `).bind(cutoffDay).run();
+
       // Delete old ref_counts
       await db.prepare(`
         DELETE FROM ref_counts WHERE hour < ?
@@ -69,7 +74,17 @@ async function runDailyCleanup(env: Env): Promise<void> {
         db.prepare('DELETE FROM browser_stats WHERE day < ?').bind(cutoffDay),
         db.prepare('DELETE FROM system_stats WHERE day < ?').bind(cutoffDay),
         db.prepare('DELETE FROM location_stats WHERE day < ?').bind(cutoffDay),
+        db.prepare('DELETE FROM region_stats WHERE day < ?').bind(cutoffDay),
         db.prepare('DELETE FROM size_stats WHERE day < ?').bind(cutoffDay),
+        db.prepare('DELETE FROM language_stats WHERE day < ?').bind(cutoffDay),
+        db.prepare('DELETE FROM entry_exit_stats WHERE day < ?').bind(cutoffDay),
+        db.prepare('DELETE FROM campaign_stats WHERE day < ?').bind(cutoffDay),
+        db.prepare('DELETE FROM prop_stats WHERE day < ?').bind(cutoffDay),
+        db.prepare('DELETE FROM time_stats WHERE day < ?').bind(cutoffDay),
+        db.prepare('DELETE FROM scroll_stats WHERE day < ?').bind(cutoffDay),
+        db.prepare('DELETE FROM vitals_stats WHERE day < ?').bind(cutoffDay),
+        db.prepare('DELETE FROM error_stats WHERE day < ?').bind(cutoffDay),
+        db.prepare('DELETE FROM visits WHERE first_at < ?').bind(cutoff),
       ]);
 
       console.log('Cleaned up old aggregation data');
@@ -90,6 +105,7 @@ async function runDailyCleanup(env: Env): Promise<void> {
       DELETE FROM browsers
       WHERE browser_id > 1
         AND browser_id NOT IN (SELECT DISTINCT browser_id FROM browser_stats)
+        AND browser_id NOT IN (SELECT DISTINCT browser_id FROM error_stats)
         AND browser_id NOT IN (SELECT DISTINCT browser_id FROM hits)
     `).run();
 
@@ -98,9 +114,34 @@ async function runDailyCleanup(env: Env): Promise<void> {
       DELETE FROM systems
       WHERE system_id > 1
         AND system_id NOT IN (SELECT DISTINCT system_id FROM system_stats)
+        AND system_id NOT IN (SELECT DISTINCT system_id FROM error_stats)
         AND system_id NOT IN (SELECT DISTINCT system_id FROM hits)
     `).run();
 
+    // 5. Vacuum unused campaigns
+    await db.prepare(`
+      DELETE FROM campaigns
+      WHERE campaign_id > 1
+        AND campaign_id NOT IN (SELECT DISTINCT campaign_id FROM campaign_stats)
+    `).run();
+
+    // 6. Vacuum unused event properties
+    await db.prepare(`
+      DELETE FROM props
+      WHERE prop_id NOT IN (SELECT DISTINCT prop_id FROM prop_stats)
+    `).run();
+
+    // 7. Vacuum errors that no longer occur
+    await db.prepare(`
+      DELETE FROM errors
+      WHERE error_id NOT IN (SELECT DISTINCT error_id FROM error_stats)
+    `).run();
+
+    // 8. Delete salts of previous days (normally already gone on rotation)
+    await db.prepare(`
+      DELETE FROM session_salts WHERE day < ?
+    `).bind(new Date().toISOString().slice(0, 10)).run();
+
     console.log('Daily cleanup complete');
 
   } catch (error) {
@@ -4,15 +4,20 @@
  * POST /api/count or GET /api/count
  *
  * Receives pageview hits from the tracking script
- * and updates all stats tables
+ * and updates all stats tables; exit beacons (x=1) report on an
+ * earlier pageview instead
  */
 
-import type { Env, HitParams, ProcessedHit } from '../../src/types';
-import { getOrCreatePath, getOrCreateRef, getOrCreateBrowser, getOrCreateSystem, formatHour, formatDay, normalizeWidth } from '../../src/lib/db';
-import { getOrCreateSession } from '../../src/lib/session';
+import type { Env, HitParams, ProcessedHit, ProcessedExit, VitalMetric } from '../../src/types';
+import { getOrCreatePath, getPathId, getOrCreateRef, getOrCreateBrowser, getOrCreateSystem, getOrCreateCampaign, getOrCreateProp, formatHour, formatDay, normalizeWidth } from '../../src/lib/db';
+import { getOrCreateSession, getDailySalt, generateSessionHash } from '../../src/lib/session';
 import { parseUA, detectBot } from '../../src/lib/useragent';
-import { parseRef } from '../../src/lib/refs';
-import { updateStats, updateFirstHit } from '../../src/stats/update';
+import { parseRef, extractCampaign, REF_SCHEME_CAMPAIGN } from '../../src/lib/refs';
+import { resolveSite } from '../../src/lib/sites';
+import { getClientIp, getPageHost, cleanPath } from '../../src/lib/request';
+import { parseProps } from '../../src/lib/props';
+import { VITALS, parseVital } from '../../src/lib/vitals';
+import { updateStats, updateExitStats, updateFirstHit } from '../../src/stats/update';
 
 // 1x1 transparent GIF (43 bytes)
 const GIF = new Uint8Array([
@@ -24,6 +29,12 @@ const GIF = new Uint8Array([
   0x01, 0x00, 0x3b
 ]);
 
+// Longer engaged times are cut off, e.g. a tab left in the foreground
+const MAX_ENGAGED_MS = 60 * 60 * 1000;
+
+// Scroll depth thresholds reported by count.js, in percent
+const SCROLL_DEPTHS = [0, 25, 50, 75, 100];
+
 // Response headers for the tracking pixel
 const RESPONSE_HEADERS = {
   'Content-Type': 'image/gif',
@@ -95,12 +106,12 @@ async function handleCount(context: EventContext<Env, string, unknown>): Promise
     }
 
     // Get client IP
-    const ip = request.headers.get('CF-Connecting-IP') ||
-               request.headers.get('X-Forwarded-For')?.split(',')[0] ||
-               '0.0.0.0';
+    const ip = getClientIp(request);
 
     // Process the hit asynchronously
-    context.waitUntil(processHit(env, params, ip, userAgent, request));
+    context.waitUntil(params.x === '1'
+      ? processExit(env, params, ip, userAgent, request)
+      : processHit(env, params, ip, userAgent, request));
 
   } catch (error) {
     console.error('Hit tracking error:', error);
@@ -121,6 +132,15 @@ function parseParams(searchParams: URLSearchParams): HitParams {
     s: searchParams.get('s') || undefined,
     b: searchParams.get('b') || undefined,
     q: searchParams.get('q') || undefined,
+    pr: searchParams.get('pr') || undefined,
+    x: searchParams.get('x') || undefined,
+    tm: searchParams.get('tm') || undefined,
+    sd: searchParams.get('sd') || undefined,
+    lcp: searchParams.get('lcp') || undefined,
+    inp: searchParams.get('inp') || undefined,
+    cls: searchParams.get('cls') || undefined,
+    ttfb: searchParams.get('ttfb') || undefined,
+    site: searchParams.get('site') || undefined,
     rnd: searchParams.get('rnd') || undefined,
   };
 }
@@ -138,32 +158,59 @@ async function processHit(
   const db = env.DB;
   const kv = env.SESSIONS;
 
+  // Resolve the site from data-site, falling back to the page's hostname
+  const site = await resolveSite(db, params.site || null, getPageHost(request));
+  if (!site) {
+    return;
+  }
+  const siteId = site.site_id;
+
   // Parse user agent
   const ua = parseUA(userAgent);
 
-  // Parse referrer
-  const refData = parseRef(params.r || '');
+  // Parse UTM parameters; older scripts only send them as part of the path
+  const campaign = extractCampaign(params.q ?? getQuery(params.p));
+
+  // Parse referrer, using the campaign source when there is none
+  let refData = parseRef(params.r || '');
+  if (!refData.ref && campaign?.source) {
+    refData = { ref: campaign.source, scheme: REF_SCHEME_CAMPAIGN };
+  }
 
   // Clean path
-  const path = cleanPath(params.p);
-  const title = params.t || '';
   const isEvent = params.e === 'true' || params.e === '1';
+  const path = cleanPath(params.p, isEvent);
+  const title = params.t || '';
 
   // Get or create dimension IDs
-  const [pathId, refId, browserId, systemId] = await Promise.all([
-    getOrCreatePath(db, path, title, isEvent),
+  const [pathId, refId, browserId, systemId, campaignId] = await Promise.all([
+    getOrCreatePath(db, siteId, path, title, isEvent),
     getOrCreateRef(db, refData.ref, refData.scheme),
     getOrCreateBrowser(db, ua.browserName, ua.browserVersion),
     getOrCreateSystem(db, ua.osName, ua.osVersion),
+    campaign ? getOrCreateCampaign(db, campaign.source, campaign.medium, campaign.campaign) : 1,
   ]);
 
+  // Properties are only kept for events
+  const props = isEvent ? parseProps(params.pr) : [];
+  const propIds = await Promise.all(props.map(([key, value]) => getOrCreateProp(db, key, value)));
+
   // Get or create session
-  const session = await getOrCreateSession(kv, ip, userAgent, pathId);
+  const now = new Date();
+  const day = formatDay(now);
+  const salt = await getDailySalt(db);
+  const session = await getOrCreateSession(kv, salt.salt, ip, userAgent, siteId, pathId, salt.day, isEvent);
 
   // Get location from Cloudflare
-  const cf = request.cf as { country?: string } | undefined;
+  const cf = request.cf as { country?: string; region?: string; regionCode?: string } | undefined;
   const location = cf?.country || '';
 
+  // Region (ISO 3166-2) only for sites that opted in; the city is never used
+  const region = site.collect_regions && location && cf?.regionCode
+    ? `${location}-${cf.regionCode}`.slice(0, 10)
+    : '';
+  const regionName = region ? (cf?.region || '').slice(0, 100) : '';
+
   // Parse screen width
   const width = normalizeWidth(params.s ? parseInt(params.s, 10) : null);
 
@@ -172,20 +219,27 @@ async function processHit(
   const language = parseLanguage(acceptLanguage);
 
   // Create processed hit
-  const now = new Date();
   const hit: ProcessedHit = {
+    siteId,
     pathId,
     refId,
     browserId,
     systemId,
+    campaignId,
+    propIds,
+    event: isEvent,
     session: session.sessionHash,
     firstVisit: session.firstVisit,
+    firstHit: session.firstHit,
+    previousPathId: session.previousPathId,
     width,
     location,
+    region,
+    regionName,
     language,
     createdAt: now,
     hour: formatHour(now),
-    day: formatDay(now),
+    day,
   };
 
   // Update all stats
@@ -198,36 +252,81 @@ async function processHit(
 }
 
 /**
- * Clean and normalize a path
+ * Process an exit beacon, attributing it to the session's pageview of the path
+ * Sessions are identified by the same daily hash as hits; the beacon never
+ * creates a session or path.
  */
-function cleanPath(path: string): string {
-  // Ensure path starts with /
-  if (!path.startsWith('/')) {
-    path = '/' + path;
+async function processExit(
+  env: Env,
+  params: HitParams,
+  ip: string,
+  userAgent: string,
+  request: Request
+): Promise<void> {
+  const db = env.DB;
+
+  const site = await resolveSite(db, params.site || null, getPageHost(request));
+  if (!site) {
+    return;
   }
 
-  // Remove tracking parameters from query string
-  const queryIndex = path.indexOf('?');
-  if (queryIndex === -1) {
-    return path;
+  const pathId = await getPathId(db, site.site_id, cleanPath(params.p, false));
+  if (!pathId) {
+    return;
   }
 
-  const basePath = path.slice(0, queryIndex);
-  const query = path.slice(queryIndex + 1);
+  const { day, salt } = await getDailySalt(db);
+
+  const exit: ProcessedExit = {
+    siteId: site.site_id,
+    pathId,
+    session: await generateSessionHash(salt, ip, userAgent),
+    engagedMs: parseEngagedTime(params.tm),
+    scrollDepth: parseScrollDepth(params.sd),
+    vitals: parseVitals(params),
+    day,
+  };
+
+  await updateExitStats(db, exit);
+}
+
+/**
+ * Parse the engaged time of an exit beacon
+ */
+function parseEngagedTime(value: string | undefined): number | null {
+  const ms = parseInt(value || '', 10);
+  if (!ms || ms <= 0) return null;
+  return Math.min(ms, MAX_ENGAGED_MS);
+}
 
-  // Parse and filter query params
-  const params = new URLSearchParams(query);
-  const trackingParams = [
-    'utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content',
-    'fbclid', 'gclid', 'msclkid', 'ref', '_ga'
-  ];
+/**
+ * Parse the scroll depth of an exit beacon, one of SCROLL_DEPTHS
+ */
+function parseScrollDepth(value: string | undefined): number | null {
+  const depth = parseInt(value || '', 10);
+  return SCROLL_DEPTHS.includes(depth) ? depth : null;
+}
 
-  for (const param of trackingParams) {
-    params.delete(param);
+/**
+ * Parse the Core Web Vitals of an exit beacon, skipping missing or bogus values
+ */
+function parseVitals(params: HitParams): Partial<Record<VitalMetric, number>> {
+  const vitals: Partial<Record<VitalMetric, number>> = {};
+  for (const metric of Object.keys(VITALS) as VitalMetric[]) {
+    const value = parseVital(metric, params[metric]);
+    if (value !== null) {
+      vitals[metric] = value;
+    }
   }
+  return vitals;
+}
 
-  const cleanQuery = params.toString();
-  return cleanQuery ? `${basePath}?${cleanQuery}` : basePath;
+/**
+ * Get the query string of a path
+ */
+function getQuery(path: string): string {
+  const queryIndex = path.indexOf('?');
+  return queryIndex === -1 ? '' : path.slice(queryIndex + 1);
 }
 
 /**
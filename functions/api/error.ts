@@ -0,0 +1,140 @@
+/**
+ * JavaScript error endpoint
+ *
+ * POST /api/error or GET /api/error
+ *
+ * Receives uncaught errors reported by the tracking script
+ * (data-track-errors) and counts them by page, browser and system
+ */
+
+import type { Env, ErrorParams, ProcessedError } from '../../src/types';
+import { getOrCreatePath, getOrCreateBrowser, getOrCreateSystem, formatDay } from '../../src/lib/db';
+import { parseUA, detectBot } from '../../src/lib/useragent';
+import { resolveSite } from '../../src/lib/sites';
+import { getPageHost, cleanPath } from '../../src/lib/request';
+import { getOrCreateError, normalizeErrorMessage, normalizeErrorSource, normalizeErrorStack } from '../../src/lib/errors';
+import { updateErrorStats } from '../../src/stats/update';
+
+// Response headers; reports are sent with sendBeacon, so there is no body
+const RESPONSE_HEADERS = {
+  'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+/**
+ * Handle OPTIONS preflight request
+ */
+export const onRequestOptions: PagesFunction<Env> = async () => {
+  return emptyResponse();
+};
+
+/**
+ * Handle GET request (for image requests)
+ */
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  return handleError(context);
+};
+
+/**
+ * Handle POST request (for sendBeacon)
+ */
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  return handleError(context);
+};
+
+/**
+ * Main error report handler
+ */
+async function handleError(context: EventContext<Env, string, unknown>): Promise<Response> {
+  const { request, env } = context;
+
+  try {
+    const url = new URL(request.url);
+    const params = parseParams(url.searchParams);
+
+    // Validate required fields
+    if (!params.p || !params.m || params.p.length > 2048) {
+      return emptyResponse();
+    }
+
+    // Skip bots, like hits
+    const userAgent = request.headers.get('User-Agent') || '';
+    if (parseInt(params.b || '0', 10) > 0 || detectBot(userAgent) > 100) {
+      return emptyResponse();
+    }
+
+    context.waitUntil(processError(env, params, userAgent, request));
+
+  } catch (error) {
+    console.error('Error tracking error:', error);
+  }
+
+  return emptyResponse();
+}
+
+/**
+ * Parse error parameters from query string
+ */
+function parseParams(searchParams: URLSearchParams): ErrorParams {
+  return {
+    p: searchParams.get('p') || '',
+    m: searchParams.get('m') || '',
+    src: searchParams.get('src') || undefined,
+    st: searchParams.get('st') || undefined,
+    b: searchParams.get('b') || undefined,
+    site: searchParams.get('site') || undefined,
+  };
+}
+
+/**
+ * Group an error report by fingerprint and count it
+ */
+async function processError(
+  env: Env,
+  params: ErrorParams,
+  userAgent: string,
+  request: Request
+): Promise<void> {
+  const db = env.DB;
+
+  const site = await resolveSite(db, params.site || null, getPageHost(request));
+  if (!site) {
+    return;
+  }
+
+  const message = normalizeErrorMessage(params.m);
+  if (!message) {
+    return;
+  }
+
+  const ua = parseUA(userAgent);
+  const [errorId, pathId, browserId, systemId] = await Promise.all([
+    getOrCreateError(db, site.site_id, message, normalizeErrorSource(params.src || ''), normalizeErrorStack(params.st || '')),
+    getOrCreatePath(db, site.site_id, cleanPath(params.p, false)),
+    getOrCreateBrowser(db, ua.browserName, ua.browserVersion),
+    getOrCreateSystem(db, ua.osName, ua.osVersion),
+  ]);
+
+  const error: ProcessedError = {
+    siteId: site.site_id,
+    errorId,
+    pathId,
+    browserId,
+    systemId,
+    day: formatDay(new Date()),
+  };
+
+  await updateErrorStats(db, error);
+}
+
+/**
+ * Return an empty response
+ */
+function emptyResponse(): Response {
+  return new Response(null, {
+    status: 204,
+    headers: RESPONSE_HEADERS
+  });
+}
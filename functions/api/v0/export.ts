@@ -0,0 +1,97 @@
+/**
+ * Raw hit export
+ *
+ * GET /api/v0/export?format=csv|ndjson
+ *
+ * Streams every hit in the selected period with paths, referrers,
+ * browsers and systems joined in. Accepts the same site and period
+ * parameters as the stats API.
+ */
+
+import type { Env } from '../../../src/types';
+import type { ExportCursor } from '../../../src/stats/export';
+import { parsePeriodExtended } from '../../../src/stats/queries';
+import {
+  EXPORT_PAGE_SIZE,
+  getExportPage,
+  csvHeader,
+  toCsvLine,
+  toNdjsonLine
+} from '../../../src/stats/export';
+import { jsonError, getApiSite } from '../../../src/lib/api';
+
+// Supported formats and their content types
+const FORMATS: Record<string, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+};
+
+/**
+ * GET /api/v0/export
+ */
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+  const url = new URL(request.url);
+
+  const format = url.searchParams.get('format') || 'csv';
+  if (!Object.hasOwn(FORMATS, format)) {
+    return jsonError('Unknown format; expected csv or ndjson', 400);
+  }
+
+  const site = await getApiSite(env.DB, url.searchParams);
+  if (!site) {
+    return jsonError('Unknown site', 404);
+  }
+
+  // Invalid custom dates make toISOString() throw
+  let start: string;
+  let end: string;
+  try {
+    ({ start, end } = parsePeriodExtended(url.searchParams));
+  } catch {
+    return jsonError('Invalid period-start or period-end', 400);
+  }
+
+  const db = env.DB;
+  const siteId = site.site_id;
+  const encoder = new TextEncoder();
+  let after: ExportCursor | null = null;
+  let headerSent = format !== 'csv';
+
+  // Fetch one page per pull so only a single page is ever held in memory
+  const body = new ReadableStream({
+    async pull(controller) {
+      try {
+        if (!headerSent) {
+          controller.enqueue(encoder.encode(csvHeader()));
+          headerSent = true;
+        }
+
+        const rows = await getExportPage(db, siteId, start, end, after);
+        if (rows.length > 0) {
+          const toLine = format === 'csv' ? toCsvLine : toNdjsonLine;
+          controller.enqueue(encoder.encode(rows.map(toLine).join('')));
+          const last = rows[rows.length - 1];
+          after = { created_at: last.created_at, hit_id: last.hit_id };
+        }
+
+        if (rows.length < EXPORT_PAGE_SIZE) {
+          controller.close();
+        }
+      } catch (error) {
+        console.error('Export error:', error);
+        controller.error(error);
+      }
+    }
+  });
+
+  const filename = `cloudcounter-${site.code}-${start.slice(0, 10)}-${end.slice(0, 10)}.${format}`;
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': FORMATS[format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store'
+    }
+  });
+};
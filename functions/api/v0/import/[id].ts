@@ -0,0 +1,76 @@
+/**
+ * GoatCounter CSV import chunks
+ *
+ * GET /api/v0/import/:id - Import progress
+ * POST /api/v0/import/:id?offset=N - Import the next chunk of CSV rows
+ *
+ * The offset must equal the job's next_row, also when the chunk is
+ * stored. A mismatch returns 409 with the current job, so the client can
+ * resume from where the server is.
+ */
+
+import type { Env } from '../../../../src/types';
+import { parseCsv } from '../../../../src/lib/csv';
+import { API_VERSION, jsonResponse, jsonError } from '../../../../src/lib/api';
+import { MAX_IMPORT_CHUNK_ROWS, getImportJob, importChunk } from '../../../../src/stats/import';
+
+/**
+ * GET /api/v0/import/:id - Import progress
+ */
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const job = await getImportJob(context.env.DB, parseInt(context.params.id as string, 10));
+  if (!job) {
+    return jsonError('Unknown import', 404);
+  }
+
+  return jsonResponse({ version: API_VERSION, data: job });
+};
+
+/**
+ * POST /api/v0/import/:id - Import a chunk
+ *
+ * Body: CSV rows without the header line
+ */
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env, params } = context;
+  const url = new URL(request.url);
+
+  const job = await getImportJob(env.DB, parseInt(params.id as string, 10));
+  if (!job) {
+    return jsonError('Unknown import', 404);
+  }
+
+  if (job.status === 'done') {
+    return jsonError('Import already finished', 409);
+  }
+
+  const offset = parseInt(url.searchParams.get('offset') || '', 10);
+  if (offset !== job.next_row) {
+    return jsonResponse({ version: API_VERSION, error: 'Offset does not match next_row', data: job }, 409);
+  }
+
+  const rows = parseCsv(await request.text()).filter(row => row.length > 1 || row[0] !== '');
+  if (rows.length === 0) {
+    return jsonError('Empty chunk', 400);
+  }
+  if (rows.length > MAX_IMPORT_CHUNK_ROWS) {
+    return jsonError(`Chunks are limited to ${MAX_IMPORT_CHUNK_ROWS} rows`, 413);
+  }
+  if (job.next_row + rows.length > job.total_rows) {
+    return jsonError('Chunk runs past total_rows', 400);
+  }
+
+  try {
+    const updated = await importChunk(env.DB, job, rows);
+    return jsonResponse({ version: API_VERSION, data: updated });
+  } catch (error) {
+    // A concurrent request (a retry or another tab) stored this chunk first
+    const current = await getImportJob(env.DB, job.import_id);
+    if (current && current.next_row !== job.next_row) {
+      return jsonResponse({ version: API_VERSION, error: 'Offset does not match next_row', data: current }, 409);
+    }
+
+    console.error('Import error:', error);
+    return jsonError('Server error', 500);
+  }
+};
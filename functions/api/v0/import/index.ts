@@ -0,0 +1,72 @@
+/**
+ * GoatCounter CSV import jobs
+ *
+ * GET /api/v0/import - List recent imports, of one site with ?site=
+ * POST /api/v0/import - Start an import
+ *
+ * The client parses the file and uploads rows in chunks to
+ * /api/v0/import/:id; see public/import.js.
+ */
+
+import type { Env } from '../../../../src/types';
+import { parseCsv } from '../../../../src/lib/csv';
+import { API_VERSION, jsonResponse, jsonError, getApiSite } from '../../../../src/lib/api';
+import { GOATCOUNTER_HEADER, isGoatCounterHeader, createImportJob, getImportJobs } from '../../../../src/stats/import';
+
+/**
+ * GET /api/v0/import - List recent imports
+ */
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+  const url = new URL(request.url);
+
+  let siteId: number | undefined;
+  if (url.searchParams.has('site')) {
+    const site = await getApiSite(env.DB, url.searchParams);
+    if (!site) {
+      return jsonError('Unknown site', 404);
+    }
+    siteId = site.site_id;
+  }
+
+  const imports = await getImportJobs(env.DB, siteId);
+  return jsonResponse({ version: API_VERSION, data: imports });
+};
+
+/**
+ * POST /api/v0/import - Start an import
+ *
+ * Body: { "site": "blog", "filename": "export.csv", "header": "2Path,Title,…", "total_rows": 12345 }
+ */
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+  const url = new URL(request.url);
+
+  let body: { site?: string; filename?: string; header?: string; total_rows?: number };
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError('Invalid JSON body', 400);
+  }
+
+  if (body.site) {
+    url.searchParams.set('site', body.site);
+  }
+  const site = await getApiSite(env.DB, url.searchParams);
+  if (!site) {
+    return jsonError('Unknown site', 404);
+  }
+
+  const header = parseCsv(body.header || '')[0] || [];
+  if (!isGoatCounterHeader(header)) {
+    return jsonError(`Not a GoatCounter version 2 export; expected header: ${GOATCOUNTER_HEADER.join(',')}`, 400);
+  }
+
+  const totalRows = Number(body.total_rows);
+  if (!Number.isInteger(totalRows) || totalRows < 0) {
+    return jsonError('total_rows must be a non-negative integer', 400);
+  }
+
+  const job = await createImportJob(env.DB, site.site_id, (body.filename || '').slice(0, 200), totalRows);
+  return jsonResponse({ version: API_VERSION, data: job }, 201);
+};
@@ -0,0 +1,128 @@
+/**
+ * JSON stats API
+ *
+ * GET /api/v0/stats/:widget
+ *
+ * Returns the same data as the dashboard widgets. Accepts the dashboard's
+ * period, period-start, period-end, hl, filter and path_id parameters,
+ * plus site and limit.
+ */
+
+import type { Env, StatsScope } from '../../../../src/types';
+import {
+  getTopPagesWithChange,
+  getTotalsWithChange,
+  getEngagementWithChange,
+  getTotalHitsWithGranularity,
+  getEntryPages,
+  getExitPages,
+  getTimeOnPage,
+  getScrollDepth,
+  getVitals,
+  getErrorStats,
+  getTopRefs,
+  getGoalStats,
+  getFunnelStats,
+  getEventStats,
+  getOutboundStats,
+  getPropStats,
+  getBrowserStats,
+  getSystemStats,
+  getLocationStats,
+  getRegionStats,
+  getSizeStats,
+  getLanguageStats,
+  getCampaignStats,
+  parsePeriodExtended,
+  parseScope
+} from '../../../../src/stats/queries';
+import { API_VERSION, jsonResponse, jsonError, getApiSite } from '../../../../src/lib/api';
+
+// Default and maximum number of rows for list widgets
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+
+type Period = ReturnType<typeof parsePeriodExtended>;
+
+type WidgetHandler = (
+  db: D1Database,
+  scope: StatsScope,
+  period: Period,
+  limit: number
+) => Promise<unknown>;
+
+// Available widgets, keyed by route name
+const WIDGETS: Record<string, WidgetHandler> = {
+  totals: (db, scope, p) => getTotalsWithChange(db, scope, p.start, p.end),
+  engagement: (db, scope, p) => getEngagementWithChange(db, scope, p.start, p.end),
+  timeseries: async (db, scope, p) => {
+    const { timeSeries } = await getTotalHitsWithGranularity(db, scope, p.start, p.end, p.granularity);
+    return timeSeries;
+  },
+  pages: (db, scope, p, limit) => getTopPagesWithChange(db, scope, p.start, p.end, limit),
+  events: (db, scope, p, limit) => getEventStats(db, scope, p.start, p.end, limit),
+  outbound: (db, scope, p, limit) => getOutboundStats(db, scope, p.start, p.end, limit),
+  props: (db, scope, p, limit) => getPropStats(db, scope, p.start, p.end, limit),
+  entries: (db, scope, p, limit) => getEntryPages(db, scope, p.start, p.end, limit),
+  exits: (db, scope, p, limit) => getExitPages(db, scope, p.start, p.end, limit),
+  time: (db, scope, p, limit) => getTimeOnPage(db, scope, p.start, p.end, limit),
+  scroll: (db, scope, p) => getScrollDepth(db, scope, p.start, p.end),
+  vitals: (db, scope, p) => getVitals(db, scope, p.start, p.end),
+  errors: (db, scope, p, limit) => getErrorStats(db, scope, p.start, p.end, limit),
+  goals: (db, scope, p) => getGoalStats(db, scope, p.start, p.end),
+  funnels: (db, scope, p) => getFunnelStats(db, scope, p.start, p.end),
+  refs: (db, scope, p, limit) => getTopRefs(db, scope, p.start, p.end, limit),
+  browsers: (db, scope, p, limit) => getBrowserStats(db, scope, p.start, p.end, limit),
+  systems: (db, scope, p, limit) => getSystemStats(db, scope, p.start, p.end, limit),
+  locations: (db, scope, p, limit) => getLocationStats(db, scope, p.start, p.end, limit),
+  regions: (db, scope, p, limit) => getRegionStats(db, scope, p.start, p.end, limit),
+  sizes: (db, scope, p) => getSizeStats(db, scope, p.start, p.end),
+  languages: (db, scope, p, limit) => getLanguageStats(db, scope, p.start, p.end, limit),
+  campaigns: (db, scope, p, limit) => getCampaignStats(db, scope, p.start, p.end, limit),
+};
+
+/**
+ * GET /api/v0/stats/:widget
+ */
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { request, env, params } = context;
+  const url = new URL(request.url);
+
+  const name = params.widget as string;
+  const widget = Object.hasOwn(WIDGETS, name) ? WIDGETS[name] : undefined;
+  if (!widget) {
+    return jsonError(`Unknown widget; expected one of: ${Object.keys(WIDGETS).join(', ')}`, 404);
+  }
+
+  const site = await getApiSite(env.DB, url.searchParams);
+  if (!site) {
+    return jsonError('Unknown site', 404);
+  }
+
+  // Invalid custom dates make toISOString() throw
+  let period: Period;
+  try {
+    period = parsePeriodExtended(url.searchParams);
+  } catch {
+    return jsonError('Invalid period-start or period-end', 400);
+  }
+
+  const limitParam = parseInt(url.searchParams.get('limit') || '', 10);
+  const limit = limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : DEFAULT_LIMIT;
+
+  try {
+    const data = await widget(env.DB, parseScope(site.site_id, url.searchParams), period, limit);
+
+    return jsonResponse({
+      version: API_VERSION,
+      site: site.code,
+      start: period.start,
+      end: period.end,
+      granularity: period.granularity,
+      data
+    });
+  } catch (error) {
+    console.error('Stats API error:', error);
+    return jsonError('Server error', 500);
+  }
+};
@@ -0,0 +1,152 @@
+/**
+ * Funnel management
+ *
+ * GET /funnels - List a site's funnels
+ * POST /funnels - Create or delete a funnel
+ */
+
+import type { Env, Funnel, Site } from '../src/types';
+import { getSites, selectSite } from '../src/lib/sites';
+import {
+  MIN_FUNNEL_STEPS,
+  MAX_FUNNEL_STEPS,
+  MAX_FUNNEL_WINDOW_MINUTES,
+  parseFunnelSteps,
+  formatFunnelStep,
+  getFunnels,
+  createFunnel,
+  deleteFunnel
+} from '../src/lib/funnels';
+import { escapeHtml, renderAdminPage } from '../src/lib/html';
+
+/**
+ * GET /funnels - List funnels of the selected site
+ */
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+  const url = new URL(request.url);
+
+  const sites = await getSites(env.DB);
+  const site = selectSite(sites, url.searchParams.get('site'));
+  if (!site) {
+    return Response.redirect(new URL('/sites', url.origin).toString(), 302);
+  }
+
+  const funnels = await getFunnels(env.DB, site.site_id);
+  const html = renderFunnelsPage(site, sites, funnels, url.searchParams.get('error'));
+
+  return new Response(html, {
+    headers: { 'Content-Type': 'text/html' }
+  });
+};
+
+/**
+ * POST /funnels - Create or delete a funnel
+ */
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+
+  const formData = await request.formData().catch(() => null);
+  const siteCode = ((formData?.get('site') as string) || '').trim();
+  const funnelsUrl = (error?: string) => {
+    const params = new URLSearchParams({ site: siteCode });
+    if (error) params.set('error', error);
+    return new URL(`/funnels?${params}`, request.url).toString();
+  };
+
+  try {
+    const sites = await getSites(env.DB);
+    const site = sites.find(s => s.code === siteCode);
+    if (!formData || !site) {
+      return Response.redirect(funnelsUrl('server'), 302);
+    }
+
+    const action = formData.get('action');
+
+    if (action === 'create') {
+      const name = ((formData.get('name') as string) || '').trim();
+      const steps = parseFunnelSteps((formData.get('steps') as string) || '');
+      const windowMinutes = parseInt((formData.get('window_minutes') as string) || '', 10);
+      if (!name || !steps || !(windowMinutes > 0 && windowMinutes <= MAX_FUNNEL_WINDOW_MINUTES)) {
+        return Response.redirect(funnelsUrl('invalid'), 302);
+      }
+
+      await createFunnel(env.DB, site.site_id, name, steps, windowMinutes);
+    } else if (action === 'delete') {
+      const funnelId = parseInt((formData.get('funnel_id') as string) || '', 10);
+      if (funnelId) {
+        await deleteFunnel(env.DB, site.site_id, funnelId);
+      }
+    }
+
+    return Response.redirect(funnelsUrl(), 302);
+  } catch (error) {
+    console.error('Funnel update error:', error);
+    return Response.redirect(funnelsUrl('server'), 302);
+  }
+};
+
+/**
+ * Render funnels page HTML
+ */
+function renderFunnelsPage(site: Site, sites: Site[], funnels: Funnel[], error: string | null): string {
+  const errorMessage = error === 'invalid'
+    ? `<p class="form-error">A funnel needs a name, ${MIN_FUNNEL_STEPS} to ${MAX_FUNNEL_STEPS} steps and a window of at most ${MAX_FUNNEL_WINDOW_MINUTES} minutes.</p>`
+    : error === 'server'
+    ? '<p class="form-error">Server error. Please try again.</p>'
+    : '';
+
+  const siteLinks = sites.length > 1 ? `
+    <div class="admin-card">
+      <div class="form-row">
+        ${sites.map(s => s.site_id === site.site_id
+          ? `<strong>${escapeHtml(s.name || s.code)}</strong>`
+          : `<a href="/funnels?site=${encodeURIComponent(s.code)}">${escapeHtml(s.name || s.code)}</a>`
+        ).join('')}
+      </div>
+    </div>
+  ` : '';
+
+  const rows = funnels.length === 0
+    ? '<div class="empty-state">No funnels yet</div>'
+    : funnels.map(funnel => `
+      <div class="admin-row">
+        <div class="admin-row-main">
+          <span class="admin-row-name">${escapeHtml(funnel.name)}</span>
+          <span class="admin-row-meta">within ${funnel.window_minutes} min</span>
+        </div>
+        <div class="admin-row-meta">
+          ${funnel.steps.map(step => `<code>${escapeHtml(formatFunnelStep(step))}</code>`).join(' → ')}
+        </div>
+        <form method="POST" action="/funnels">
+          <input type="hidden" name="site" value="${escapeHtml(site.code)}" />
+          <input type="hidden" name="action" value="delete" />
+          <input type="hidden" name="funnel_id" value="${funnel.funnel_id}" />
+          <button type="submit" class="form-btn secondary">Delete</button>
+        </form>
+      </div>
+    `).join('');
+
+  return renderAdminPage(`Funnels: ${site.name || site.code}`, `
+    ${errorMessage}
+    ${siteLinks}
+    <div class="admin-card">${rows}</div>
+    <form method="POST" action="/funnels" class="admin-card">
+      <input type="hidden" name="site" value="${escapeHtml(site.code)}" />
+      <input type="hidden" name="action" value="create" />
+      <div class="admin-card-header">
+        <span class="admin-card-title">Add funnel</span>
+      </div>
+      <div class="form-row">
+        <label>Name <input type="text" name="name" class="form-input" required placeholder="Signup" /></label>
+        <label>Window (minutes) <input type="number" name="window_minutes" class="form-input" required min="1" max="${MAX_FUNNEL_WINDOW_MINUTES}" value="60" /></label>
+      </div>
+      <div class="form-row">
+        <label>Steps <textarea name="steps" class="form-input" rows="${MAX_FUNNEL_STEPS / 2}" required placeholder="/pricing&#10;/signup&#10;event:signup-complete"></textarea></label>
+        <button type="submit" class="form-btn">Add</button>
+      </div>
+      <p class="form-help">One step per line: a path, or an event name prefixed with <code>event:</code>. Steps with <code>*</code> or <code>?</code> match by pattern, like goals. A session reaches a step when it gets there after the previous steps and within the window from the first step.</p>
+      <p class="form-help">Funnels are computed from the raw hits of the selected period. Session hashes change every day, so a funnel can't span more than ${MAX_FUNNEL_WINDOW_MINUTES / 60} hours.</p>
+    </form>
+  `);
+}
@@ -0,0 +1,148 @@
+/**
+ * Goal management
+ *
+ * GET /goals - List a site's goals
+ * POST /goals - Create or delete a goal
+ */
+
+import type { Env, Goal, GoalKind, GoalMatch, Site } from '../src/types';
+import { getSites, selectSite } from '../src/lib/sites';
+import { GOAL_KINDS, GOAL_MATCHES, isGoalKind, isGoalMatch, getGoals, createGoal, deleteGoal } from '../src/lib/goals';
+import { escapeHtml, renderAdminPage } from '../src/lib/html';
+
+/**
+ * GET /goals - List goals of the selected site
+ */
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+  const url = new URL(request.url);
+
+  const sites = await getSites(env.DB);
+  const site = selectSite(sites, url.searchParams.get('site'));
+  if (!site) {
+    return Response.redirect(new URL('/sites', url.origin).toString(), 302);
+  }
+
+  const goals = await getGoals(env.DB, site.site_id);
+  const html = renderGoalsPage(site, sites, goals, url.searchParams.get('error'));
+
+  return new Response(html, {
+    headers: { 'Content-Type': 'text/html' }
+  });
+};
+
+/**
+ * POST /goals - Create or delete a goal
+ */
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+
+  const formData = await request.formData().catch(() => null);
+  const siteCode = ((formData?.get('site') as string) || '').trim();
+  const goalsUrl = (error?: string) => {
+    const params = new URLSearchParams({ site: siteCode });
+    if (error) params.set('error', error);
+    return new URL(`/goals?${params}`, request.url).toString();
+  };
+
+  try {
+    const sites = await getSites(env.DB);
+    const site = sites.find(s => s.code === siteCode);
+    if (!formData || !site) {
+      return Response.redirect(goalsUrl('server'), 302);
+    }
+
+    const action = formData.get('action');
+
+    if (action === 'create') {
+      const name = ((formData.get('name') as string) || '').trim();
+      const kind = (formData.get('kind') as string) || '';
+      const match = (formData.get('match_type') as string) || '';
+      const value = ((formData.get('value') as string) || '').trim();
+      if (!name || !value || !isGoalKind(kind) || !isGoalMatch(match)) {
+        return Response.redirect(goalsUrl('invalid'), 302);
+      }
+
+      await createGoal(env.DB, site.site_id, name, kind, match, value);
+    } else if (action === 'delete') {
+      const goalId = parseInt((formData.get('goal_id') as string) || '', 10);
+      if (goalId) {
+        await deleteGoal(env.DB, site.site_id, goalId);
+      }
+    }
+
+    return Response.redirect(goalsUrl(), 302);
+  } catch (error) {
+    console.error('Goal update error:', error);
+    return Response.redirect(goalsUrl('server'), 302);
+  }
+};
+
+/**
+ * Render goals page HTML
+ */
+function renderGoalsPage(site: Site, sites: Site[], goals: Goal[], error: string | null): string {
+  const errorMessage = error === 'invalid'
+    ? '<p class="form-error">A goal needs a name and a path or event name.</p>'
+    : error === 'server'
+    ? '<p class="form-error">Server error. Please try again.</p>'
+    : '';
+
+  const siteLinks = sites.length > 1 ? `
+    <div class="admin-card">
+      <div class="form-row">
+        ${sites.map(s => s.site_id === site.site_id
+          ? `<strong>${escapeHtml(s.name || s.code)}</strong>`
+          : `<a href="/goals?site=${encodeURIComponent(s.code)}">${escapeHtml(s.name || s.code)}</a>`
+        ).join('')}
+      </div>
+    </div>
+  ` : '';
+
+  const rows = goals.length === 0
+    ? '<div class="empty-state">No goals yet</div>'
+    : goals.map(goal => `
+      <div class="admin-row">
+        <div class="admin-row-main">
+          <span class="admin-row-name">${escapeHtml(goal.name)}</span>
+          <code>${escapeHtml(goal.value)}</code>
+          <span class="admin-row-meta">${GOAL_KINDS[goal.kind]} · ${GOAL_MATCHES[goal.match_type]}</span>
+        </div>
+        <form method="POST" action="/goals">
+          <input type="hidden" name="site" value="${escapeHtml(site.code)}" />
+          <input type="hidden" name="action" value="delete" />
+          <input type="hidden" name="goal_id" value="${goal.goal_id}" />
+          <button type="submit" class="form-btn secondary">Delete</button>
+        </form>
+      </div>
+    `).join('');
+
+  const kindOptions = (Object.keys(GOAL_KINDS) as GoalKind[])
+    .map(kind => `<option value="${kind}">${GOAL_KINDS[kind]}</option>`)
+    .join('');
+  const matchOptions = (Object.keys(GOAL_MATCHES) as GoalMatch[])
+    .map(match => `<option value="${match}">${GOAL_MATCHES[match]}</option>`)
+    .join('');
+
+  return renderAdminPage(`Goals: ${site.name || site.code}`, `
+    ${errorMessage}
+    ${siteLinks}
+    <div class="admin-card">${rows}</div>
+    <form method="POST" action="/goals" class="admin-card">
+      <input type="hidden" name="site" value="${escapeHtml(site.code)}" />
+      <input type="hidden" name="action" value="create" />
+      <div class="admin-card-header">
+        <span class="admin-card-title">Add goal</span>
+      </div>
+      <div class="form-row">
+        <label>Name <input type="text" name="name" class="form-input" required placeholder="Signup" /></label>
+        <label>Type <select name="kind" class="form-input">${kindOptions}</select></label>
+        <label>Match <select name="match_type" class="form-input">${matchOptions}</select></label>
+        <label>Path or event <input type="text" name="value" class="form-input" required placeholder="/signup/done" /></label>
+        <button type="submit" class="form-btn">Add</button>
+      </div>
+      <p class="form-help">A conversion is a session that viewed a matching page or sent a matching event. Patterns use <code>*</code> for any characters and <code>?</code> for a single character, e.g. <code>/blog/*</code>. Matching is case-sensitive.</p>
+      <p class="form-help">Goals are counted from the raw hits, so they also cover visits before the goal was added (within the data retention period).</p>
+    </form>
+  `);
+}
@@ -0,0 +1,67 @@
+/**
+ * GoatCounter import page
+ *
+ * GET /import - Upload form and recent imports
+ */
+
+import type { Env, ImportJob, Site } from '../src/types';
+import { getSites } from '../src/lib/sites';
+import { escapeHtml, formatNumber, renderAdminPage } from '../src/lib/html';
+import { getImportJobs, MAX_IMPORT_CHUNK_ROWS } from '../src/stats/import';
+
+/**
+ * GET /import - Show upload form
+ */
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+
+  const [sites, imports] = await Promise.all([
+    getSites(env.DB),
+    getImportJobs(env.DB)
+  ]);
+
+  return new Response(renderImportPage(sites, imports), {
+    headers: { 'Content-Type': 'text/html' }
+  });
+};
+
+/**
+ * Render import page HTML
+ */
+function renderImportPage(sites: Site[], imports: ImportJob[]): string {
+  const siteNames = new Map(sites.map(site => [site.site_id, site.name || site.code]));
+
+  const siteOptions = sites.map(site => `
+    <option value="${escapeHtml(site.code)}">${escapeHtml(site.name || site.code)}</option>
+  `).join('');
+
+  const rows = imports.length === 0
+    ? '<div class="empty-state">No imports yet</div>'
+    : imports.map(job => `
+      <div class="admin-row">
+        <div class="admin-row-main">
+          <span class="admin-row-name">${escapeHtml(job.filename || `Import ${job.import_id}`)}</span>
+          <span class="admin-row-meta">${escapeHtml(siteNames.get(job.site_id) || '')}</span>
+        </div>
+        <div class="admin-row-meta">
+          ${formatNumber(job.next_row)} of ${formatNumber(job.total_rows)} rows ·
+          ${formatNumber(job.imported)} imported · ${formatNumber(job.skipped)} skipped ·
+          ${job.status === 'done' ? 'done' : 'unfinished'}
+        </div>
+      </div>
+    `).join('');
+
+  return renderAdminPage('Import from GoatCounter', `
+    <form class="admin-card" id="import-form" data-chunk-rows="${MAX_IMPORT_CHUNK_ROWS}">
+      <div class="form-row">
+        <label>Site <select name="site" class="form-input">${siteOptions}</select></label>
+        <label>CSV export <input type="file" name="file" class="form-input" accept=".csv,text/csv" required /></label>
+        <button type="submit" class="form-btn">Import</button>
+      </div>
+      <p class="form-help">Export your data from GoatCounter (CSV, format version 2) and select the file here. Rows are uploaded in chunks; if an import is interrupted, select the same file again to resume where it stopped.</p>
+      <p class="import-status" id="import-status" aria-live="polite"></p>
+    </form>
+    <div class="admin-card">${rows}</div>
+    <script src="/import.js"></script>
+  `);
+}
@@ -0,0 +1,94 @@
+/**
+ * Shared dashboards
+ *
+ * GET /share/:token - Read-only dashboard for a share link, or for the
+ * code of a site with a public dashboard
+ */
+
+import type { Env, DashboardWidget, Site } from '../../src/types';
+import { getSites } from '../../src/lib/sites';
+import { isShareToken, resolveShare } from '../../src/lib/shares';
+import { loadDashboardData, renderDashboard } from '../../src/lib/dashboard';
+import { parsePeriodExtended } from '../../src/stats/queries';
+
+// Seconds a rendered shared dashboard is cached
+const CACHE_TTL = 300;
+
+// Query parameters the dashboard reads; the cache key ignores all others
+const DASHBOARD_PARAMS = ['period', 'period-start', 'period-end', 'hl', 'filter', 'events', 'path_id'];
+
+/**
+ * GET /share/:token - Read-only dashboard
+ */
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { request, env, params } = context;
+  const url = new URL(request.url);
+  const token = params.token as string;
+
+  let site: Site | null = null;
+  let widgets: DashboardWidget[] | null = null;
+
+  if (isShareToken(token)) {
+    const share = await resolveShare(env.DB, token);
+    if (share) {
+      site = share.site;
+      widgets = share.widgets.length > 0 ? share.widgets : null;
+    }
+  } else {
+    const sites = await getSites(env.DB);
+    site = sites.find(s => s.code === token && s.public) || null;
+  }
+
+  // Unknown, expired and private all look the same
+  if (!site) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  // Invalid custom dates make toISOString() throw
+  try {
+    parsePeriodExtended(url.searchParams);
+  } catch {
+    return new Response('Invalid period-start or period-end', { status: 400 });
+  }
+
+  // Anyone can load shared dashboards, so rendered pages are cached. The
+  // link is checked above first, so deleting it still takes effect at once.
+  const cacheUrl = canonicalUrl(url);
+  const cacheKey = new Request(cacheUrl.toString());
+  const cached = await caches.default.match(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const data = await loadDashboardData(env.DB, cacheUrl, site, [site], { base: url.pathname, readOnly: true, widgets });
+  if (!data) {
+    return new Response('Page not found', { status: 404 });
+  }
+
+  const html = renderDashboard(data);
+
+  const response = new Response(html, {
+    headers: {
+      'Content-Type': 'text/html',
+      'Cache-Control': `max-age=${CACHE_TTL}`,
+      // Keep the share token out of the Referer of outgoing links
+      'Referrer-Policy': 'no-referrer'
+    }
+  });
+  context.waitUntil(caches.default.put(cacheKey, response.clone()));
+
+  return response;
+};
+
+/**
+ * Build the URL with only the dashboard's own parameters, in a fixed
+ * order, so other query strings can't bypass the cache
+ */
+function canonicalUrl(url: URL): URL {
+  const canonical = new URL(url.pathname, url.origin);
+  for (const name of DASHBOARD_PARAMS) {
+    const value = url.searchParams.get(name);
+    if (value) canonical.searchParams.set(name, value);
+  }
+  return canonical;
+}
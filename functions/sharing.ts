@@ -0,0 +1,212 @@
+/**
+ * Dashboard sharing
+ *
+ * GET /sharing - A site's public dashboard setting and share links
+ * POST /sharing - Toggle the public dashboard, create or delete a share link
+ */
+
+import type { Env, DashboardWidget, Share, Site } from '../src/types';
+import { getSites, selectSite, setSitePublic } from '../src/lib/sites';
+import { DASHBOARD_WIDGETS, isDashboardWidget, createShare, getShares, deleteShare } from '../src/lib/shares';
+import { escapeHtml, renderAdminPage } from '../src/lib/html';
+
+/**
+ * GET /sharing - Sharing settings of the selected site
+ */
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+  const url = new URL(request.url);
+
+  const sites = await getSites(env.DB);
+  const site = selectSite(sites, url.searchParams.get('site'));
+  if (!site) {
+    return Response.redirect(new URL('/sites', url.origin).toString(), 302);
+  }
+
+  const shares = await getShares(env.DB, site.site_id);
+  const html = renderSharingPage(site, sites, shares, url.origin, null, url.searchParams.get('error'));
+
+  return new Response(html, {
+    headers: { 'Content-Type': 'text/html' }
+  });
+};
+
+/**
+ * POST /sharing - Toggle the public dashboard, create or delete a share link
+ *
+ * A newly created link is rendered directly rather than redirected to,
+ * so the token never ends up in a URL or browser history.
+ */
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+  const origin = new URL(request.url).origin;
+
+  const formData = await request.formData().catch(() => null);
+  const siteCode = ((formData?.get('site') as string) || '').trim();
+  const sharingUrl = (error?: string) => {
+    const params = new URLSearchParams({ site: siteCode });
+    if (error) params.set('error', error);
+    return new URL(`/sharing?${params}`, request.url).toString();
+  };
+
+  try {
+    const sites = await getSites(env.DB);
+    const site = sites.find(s => s.code === siteCode);
+    if (!formData || !site) {
+      return Response.redirect(sharingUrl('server'), 302);
+    }
+
+    const action = formData.get('action');
+
+    if (action === 'public') {
+      await setSitePublic(env.DB, site.site_id, formData.get('public') === '1');
+    } else if (action === 'create') {
+      const name = ((formData.get('name') as string) || '').trim();
+      const widgets = formData.getAll('widgets').map(String).filter(isDashboardWidget);
+      const expires = ((formData.get('expires') as string) || '').trim();
+      const expiresAt = expires ? parseExpiry(expires) : null;
+      if (!name || expiresAt === undefined) {
+        return Response.redirect(sharingUrl('invalid'), 302);
+      }
+
+      const token = await createShare(env.DB, site.site_id, name, widgets, expiresAt);
+      const shares = await getShares(env.DB, site.site_id);
+
+      return new Response(renderSharingPage(site, sites, shares, origin, token, null), {
+        headers: {
+          'Content-Type': 'text/html',
+          'Cache-Control': 'no-store'
+        }
+      });
+    } else if (action === 'delete') {
+      const shareId = parseInt((formData.get('share_id') as string) || '', 10);
+      if (shareId) {
+        await deleteShare(env.DB, site.site_id, shareId);
+      }
+    }
+
+    return Response.redirect(sharingUrl(), 302);
+  } catch (error) {
+    console.error('Sharing update error:', error);
+    return Response.redirect(sharingUrl('server'), 302);
+  }
+};
+
+/**
+ * Parse an expiry date (YYYY-MM-DD); links stay valid until the end of
+ * that day (UTC). Returns undefined for invalid or past dates.
+ */
+function parseExpiry(value: string): string | undefined {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+
+  const date = new Date(`${value}T23:59:59.999Z`);
+  if (isNaN(date.getTime()) || date.getTime() < Date.now()) return undefined;
+
+  return date.toISOString();
+}
+
+/**
+ * Render sharing page HTML
+ */
+function renderSharingPage(
+  site: Site,
+  sites: Site[],
+  shares: Share[],
+  origin: string,
+  newToken: string | null,
+  error: string | null
+): string {
+  const errorMessage = error === 'invalid'
+    ? '<p class="form-error">A share link needs a name, and an expiry date can\'t be in the past.</p>'
+    : error === 'server'
+    ? '<p class="form-error">Server error. Please try again.</p>'
+    : '';
+
+  const siteLinks = sites.length > 1 ? `
+    <div class="admin-card">
+      <div class="form-row">
+        ${sites.map(s => s.site_id === site.site_id
+          ? `<strong>${escapeHtml(s.name || s.code)}</strong>`
+          : `<a href="/sharing?site=${encodeURIComponent(s.code)}">${escapeHtml(s.name || s.code)}</a>`
+        ).join('')}
+      </div>
+    </div>
+  ` : '';
+
+  const publicUrl = `${origin}/share/${site.code}`;
+
+  const created = newToken ? `
+    <div class="admin-card">
+      <div class="admin-card-header">
+        <span class="admin-card-title">New share link</span>
+      </div>
+      <pre class="snippet">${escapeHtml(`${origin}/share/${newToken}`)}</pre>
+      <p class="form-help">Copy it now, it won't be shown again. Anyone with the link can view these stats until it expires or is deleted.</p>
+    </div>
+  ` : '';
+
+  const now = new Date().toISOString();
+  const rows = shares.length === 0
+    ? '<div class="empty-state">No share links yet</div>'
+    : shares.map(share => `
+      <div class="admin-row">
+        <div class="admin-row-main">
+          <span class="admin-row-name">${escapeHtml(share.name)}</span>
+          <code>${escapeHtml(share.prefix)}…</code>
+          <span class="admin-row-meta">${share.widgets.length === 0 ? 'All widgets' : share.widgets.map(w => DASHBOARD_WIDGETS[w]).join(', ')}</span>
+        </div>
+        <div class="admin-row-meta">
+          Created ${share.created_at.slice(0, 10)} · ${share.expires_at === null
+            ? 'Never expires'
+            : `${share.expires_at < now ? 'Expired' : 'Expires'} ${share.expires_at.slice(0, 10)}`}
+        </div>
+        <form method="POST" action="/sharing">
+          <input type="hidden" name="site" value="${escapeHtml(site.code)}" />
+          <input type="hidden" name="action" value="delete" />
+          <input type="hidden" name="share_id" value="${share.share_id}" />
+          <button type="submit" class="form-btn secondary">Delete</button>
+        </form>
+      </div>
+    `).join('');
+
+  const widgetInputs = (Object.keys(DASHBOARD_WIDGETS) as DashboardWidget[]).map(widget => `
+    <label class="form-check"><input type="checkbox" name="widgets" value="${widget}" /> ${DASHBOARD_WIDGETS[widget]}</label>
+  `).join('');
+
+  return renderAdminPage(`Sharing: ${site.name || site.code}`, `
+    ${errorMessage}
+    ${siteLinks}
+    <form method="POST" action="/sharing" class="admin-card">
+      <input type="hidden" name="site" value="${escapeHtml(site.code)}" />
+      <input type="hidden" name="action" value="public" />
+      <div class="admin-card-header">
+        <span class="admin-card-title">Public dashboard</span>
+      </div>
+      <div class="form-row">
+        <label class="form-check"><input type="checkbox" name="public" value="1"${site.public ? ' checked' : ''} /> Anyone can view this site's dashboard</label>
+        <button type="submit" class="form-btn">Save</button>
+      </div>
+      ${site.public
+        ? `<p class="form-help">Public at <a href="${escapeHtml(publicUrl)}">${escapeHtml(publicUrl)}</a></p>`
+        : '<p class="form-help">A public dashboard shows all widgets, read-only, without the password.</p>'}
+    </form>
+    ${created}
+    <div class="admin-card">${rows}</div>
+    <form method="POST" action="/sharing" class="admin-card">
+      <input type="hidden" name="site" value="${escapeHtml(site.code)}" />
+      <input type="hidden" name="action" value="create" />
+      <div class="admin-card-header">
+        <span class="admin-card-title">Create share link</span>
+      </div>
+      <div class="form-row">
+        <label>Name <input type="text" name="name" class="form-input" required placeholder="Client report" /></label>
+        <label>Expires <input type="date" name="expires" class="form-input" /></label>
+        <button type="submit" class="form-btn">Create</button>
+      </div>
+      <div class="form-row">
+        ${widgetInputs}
+      </div>
+      <p class="form-help">A share link opens the dashboard read-only, without the site switcher, settings or exports. Leave the expiry empty for a link that works until it's deleted, and the widgets unchecked to share all of them. Totals and the chart are always shown.</p>
+    </form>
+  `);
+}
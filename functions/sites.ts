@@ -0,0 +1,118 @@
+/**
+ * Site management
+ *
+ * GET /sites - List tracked sites with their tracking snippets
+ * POST /sites - Create or update a site
+ */
+
+import type { Env, Site } from '../src/types';
+import { getSites, createSite, updateSite, isValidSiteCode } from '../src/lib/sites';
+import { escapeHtml, renderAdminPage } from '../src/lib/html';
+
+/**
+ * GET /sites - List sites
+ */
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+  const url = new URL(request.url);
+  const error = url.searchParams.get('error');
+
+  const sites = await getSites(env.DB);
+  const html = renderSitesPage(sites, url.origin, error);
+
+  return new Response(html, {
+    headers: { 'Content-Type': 'text/html' }
+  });
+};
+
+/**
+ * POST /sites - Create or update a site
+ */
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+
+  try {
+    const formData = await request.formData();
+    const action = formData.get('action');
+    const name = ((formData.get('name') as string) || '').trim();
+    const host = ((formData.get('host') as string) || '').trim();
+
+    if (action === 'create') {
+      const code = ((formData.get('code') as string) || '').trim().toLowerCase();
+      if (!isValidSiteCode(code)) {
+        return Response.redirect(new URL('/sites?error=code', request.url).toString(), 302);
+      }
+
+      const existing = await env.DB
+        .prepare('SELECT site_id FROM sites WHERE code = ?')
+        .bind(code)
+        .first<{ site_id: number }>();
+      if (existing) {
+        return Response.redirect(new URL('/sites?error=exists', request.url).toString(), 302);
+      }
+
+      await createSite(env.DB, code, name || code, host);
+    } else if (action === 'update') {
+      const siteId = parseInt((formData.get('site_id') as string) || '', 10);
+      if (!siteId) {
+        return Response.redirect(new URL('/sites?error=server', request.url).toString(), 302);
+      }
+      await updateSite(env.DB, siteId, name, host, formData.get('collect_regions') === '1');
+    }
+
+    return Response.redirect(new URL('/sites', request.url).toString(), 302);
+  } catch (error) {
+    console.error('Site update error:', error);
+    return Response.redirect(new URL('/sites?error=server', request.url).toString(), 302);
+  }
+};
+
+/**
+ * Render sites page HTML
+ */
+function renderSitesPage(sites: Site[], origin: string, error: string | null): string {
+  const errorMessage = error === 'code'
+    ? '<p class="form-error">Codes may only contain lowercase letters, digits and dashes.</p>'
+    : error === 'exists'
+    ? '<p class="form-error">A site with that code already exists.</p>'
+    : error === 'server'
+    ? '<p class="form-error">Server error. Please try again.</p>'
+    : '';
+
+  const rows = sites.map(site => `
+    <form method="POST" action="/sites" class="admin-card">
+      <input type="hidden" name="action" value="update" />
+      <input type="hidden" name="site_id" value="${site.site_id}" />
+      <div class="admin-card-header">
+        <a href="/?site=${encodeURIComponent(site.code)}" class="admin-card-title">${escapeHtml(site.name || site.code)}</a>
+        <code>${escapeHtml(site.code)}</code>
+      </div>
+      <div class="form-row">
+        <label>Name <input type="text" name="name" class="form-input" value="${escapeHtml(site.name)}" /></label>
+        <label>Host <input type="text" name="host" class="form-input" value="${escapeHtml(site.host)}" placeholder="any host" /></label>
+        <label class="form-check"><input type="checkbox" name="collect_regions" value="1"${site.collect_regions ? ' checked' : ''} /> Record regions</label>
+        <button type="submit" class="form-btn">Save</button>
+      </div>
+      <pre class="snippet">${escapeHtml(`<script async src="${origin}/count.js" data-site="${site.code}"></script>`)}</pre>
+    </form>
+  `).join('');
+
+  return renderAdminPage('Sites', `
+    ${errorMessage}
+    ${rows}
+    <form method="POST" action="/sites" class="admin-card">
+      <input type="hidden" name="action" value="create" />
+      <div class="admin-card-header">
+        <span class="admin-card-title">Add site</span>
+      </div>
+      <div class="form-row">
+        <label>Code <input type="text" name="code" class="form-input" required placeholder="blog" /></label>
+        <label>Name <input type="text" name="name" class="form-input" placeholder="My Blog" /></label>
+        <label>Host <input type="text" name="host" class="form-input" placeholder="blog.example.com" /></label>
+        <button type="submit" class="form-btn">Add</button>
+      </div>
+      <p class="form-help">Hits are matched on the <code>data-site</code> code first, then on the host. A site with an empty host receives hits no other site claims.</p>
+      <p class="form-help">Sites that record regions also store the state or province (ISO 3166-2) of each visit next to the country. Cities are never stored.</p>
+    </form>
+  `);
+}
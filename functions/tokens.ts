@@ -0,0 +1,139 @@
+/**
+ * API token management
+ *
+ * GET /tokens - List tokens
+ * POST /tokens - Create or revoke a token
+ */
+
+import type { Env, ApiToken, TokenScope } from '../src/types';
+import { TOKEN_SCOPES, isTokenScope, createApiToken, getApiTokens, revokeApiToken } from '../src/lib/tokens';
+import { escapeHtml, renderAdminPage } from '../src/lib/html';
+
+/**
+ * GET /tokens - List tokens
+ */
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+  const url = new URL(request.url);
+
+  const tokens = await getApiTokens(env.DB);
+  const html = renderTokensPage(tokens, null, url.searchParams.get('error'));
+
+  return new Response(html, {
+    headers: { 'Content-Type': 'text/html' }
+  });
+};
+
+/**
+ * POST /tokens - Create or revoke a token
+ *
+ * A newly created token is rendered directly rather than redirected to,
+ * so the plaintext value never ends up in a URL or browser history.
+ */
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+
+  try {
+    const formData = await request.formData();
+    const action = formData.get('action');
+
+    if (action === 'create') {
+      const name = ((formData.get('name') as string) || '').trim();
+      const scopes = formData.getAll('scopes').map(String).filter(isTokenScope);
+      if (!name || scopes.length === 0) {
+        return Response.redirect(new URL('/tokens?error=invalid', request.url).toString(), 302);
+      }
+
+      const token = await createApiToken(env.DB, name, scopes);
+      const tokens = await getApiTokens(env.DB);
+
+      return new Response(renderTokensPage(tokens, token, null), {
+        headers: {
+          'Content-Type': 'text/html',
+          'Cache-Control': 'no-store'
+        }
+      });
+    }
+
+    if (action === 'revoke') {
+      const tokenId = parseInt((formData.get('token_id') as string) || '', 10);
+      if (tokenId) {
+        await revokeApiToken(env.DB, tokenId);
+      }
+    }
+
+    return Response.redirect(new URL('/tokens', request.url).toString(), 302);
+  } catch (error) {
+    console.error('Token update error:', error);
+    return Response.redirect(new URL('/tokens?error=server', request.url).toString(), 302);
+  }
+};
+
+/**
+ * Render tokens page HTML
+ */
+function renderTokensPage(tokens: ApiToken[], newToken: string | null, error: string | null): string {
+  const errorMessage = error === 'invalid'
+    ? '<p class="form-error">A token needs a name and at least one scope.</p>'
+    : error === 'server'
+    ? '<p class="form-error">Server error. Please try again.</p>'
+    : '';
+
+  const created = newToken ? `
+    <div class="admin-card">
+      <div class="admin-card-header">
+        <span class="admin-card-title">New token</span>
+      </div>
+      <pre class="snippet">${escapeHtml(newToken)}</pre>
+      <p class="form-help">Copy it now, it won't be shown again. Send it as <code>Authorization: Bearer &lt;token&gt;</code>.</p>
+    </div>
+  ` : '';
+
+  const rows = tokens.length === 0
+    ? '<div class="empty-state">No tokens yet</div>'
+    : tokens.map(token => `
+      <div class="admin-row">
+        <div class="admin-row-main">
+          <span class="admin-row-name">${escapeHtml(token.name)}</span>
+          <code>${escapeHtml(token.prefix)}…</code>
+          <span class="admin-row-meta">${token.scopes.map(s => TOKEN_SCOPES[s]).join(', ')}</span>
+        </div>
+        <div class="admin-row-meta">
+          Created ${formatTimestamp(token.created_at)} · Last used ${token.last_used_at ? formatTimestamp(token.last_used_at) : 'never'}
+        </div>
+        <form method="POST" action="/tokens">
+          <input type="hidden" name="action" value="revoke" />
+          <input type="hidden" name="token_id" value="${token.token_id}" />
+          <button type="submit" class="form-btn secondary">Revoke</button>
+        </form>
+      </div>
+    `).join('');
+
+  const scopeInputs = (Object.keys(TOKEN_SCOPES) as TokenScope[]).map(scope => `
+    <label class="form-check"><input type="checkbox" name="scopes" value="${scope}" /> ${TOKEN_SCOPES[scope]}</label>
+  `).join('');
+
+  return renderAdminPage('API tokens', `
+    ${errorMessage}
+    ${created}
+    <div class="admin-card">${rows}</div>
+    <form method="POST" action="/tokens" class="admin-card">
+      <input type="hidden" name="action" value="create" />
+      <div class="admin-card-header">
+        <span class="admin-card-title">Create token</span>
+      </div>
+      <div class="form-row">
+        <label>Name <input type="text" name="name" class="form-input" required placeholder="CI stats job" /></label>
+        ${scopeInputs}
+        <button type="submit" class="form-btn">Create</button>
+      </div>
+    </form>
+  `);
+}
+
+/**
+ * Format an ISO timestamp as "YYYY-MM-DD HH:MM UTC"
+ */
+function formatTimestamp(iso: string): string {
+  return `${iso.slice(0, 10)} ${iso.slice(11, 16)} UTC`;
+}
@@ -0,0 +1,71 @@
+-- CloudCounter for Cloudflare D1
+-- Multi-site support: every dimension and aggregate row is keyed by site
+
+-- Rebuilding paths below drops and renames a table other tables reference
+PRAGMA defer_foreign_keys = true;
+
+-- Tracked sites
+CREATE TABLE IF NOT EXISTS sites (
+    site_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    code TEXT NOT NULL,              -- Short identifier, matches data-site on count.js
+    host TEXT NOT NULL DEFAULT '',   -- Hostname hits are matched on ('' = catch-all)
+    name TEXT NOT NULL DEFAULT '',
+    created_at TEXT NOT NULL,        -- ISO8601 datetime
+    UNIQUE(code)
+);
+CREATE INDEX IF NOT EXISTS idx_sites_host ON sites(host);
+
+-- Existing data belongs to the default site, which keeps the old site name
+INSERT OR IGNORE INTO sites (site_id, code, host, name, created_at)
+SELECT
+    1,
+    'default',
+    '',
+    COALESCE((SELECT value FROM settings WHERE key = 'site_name'), 'My Analytics'),
+    strftime('%Y-%m-%dT%H:%M:%fZ', 'now');
+
+DELETE FROM settings WHERE key = 'site_name';
+
+-- Paths are unique per site rather than globally. The rows are copied
+-- back after the rename so the deferred foreign key checks from the
+-- DROP are satisfied again by the time the migration commits.
+CREATE TABLE paths_backup AS SELECT path_id, path, title, event FROM paths;
+CREATE TABLE paths_new (
+    path_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    site_id INTEGER NOT NULL DEFAULT 1 REFERENCES sites(site_id),
+    path TEXT NOT NULL,
+    title TEXT NOT NULL DEFAULT '',
+    event INTEGER NOT NULL DEFAULT 0,
+    UNIQUE(site_id, path)
+);
+DROP TABLE paths;
+ALTER TABLE paths_new RENAME TO paths;
+INSERT INTO paths (path_id, site_id, path, title, event)
+SELECT path_id, 1, path, title, event FROM paths_backup;
+DROP TABLE paths_backup;
+CREATE INDEX IF NOT EXISTS idx_paths_site_path ON paths(site_id, path);
+
+-- Raw hits and aggregation tables
+ALTER TABLE hits ADD COLUMN site_id INTEGER NOT NULL DEFAULT 1;
+CREATE INDEX IF NOT EXISTS idx_hits_site_created_at ON hits(site_id, created_at DESC);
+
+ALTER TABLE hit_counts ADD COLUMN site_id INTEGER NOT NULL DEFAULT 1;
+CREATE INDEX IF NOT EXISTS idx_hit_counts_site_hour ON hit_counts(site_id, hour DESC);
+
+ALTER TABLE hit_stats ADD COLUMN site_id INTEGER NOT NULL DEFAULT 1;
+CREATE INDEX IF NOT EXISTS idx_hit_stats_site_day ON hit_stats(site_id, day DESC);
+
+ALTER TABLE ref_counts ADD COLUMN site_id INTEGER NOT NULL DEFAULT 1;
+CREATE INDEX IF NOT EXISTS idx_ref_counts_site_hour ON ref_counts(site_id, hour DESC);
+
+ALTER TABLE browser_stats ADD COLUMN site_id INTEGER NOT NULL DEFAULT 1;
+CREATE INDEX IF NOT EXISTS idx_browser_stats_site_day ON browser_stats(site_id, day DESC);
+
+ALTER TABLE system_stats ADD COLUMN site_id INTEGER NOT NULL DEFAULT 1;
+CREATE INDEX IF NOT EXISTS idx_system_stats_site_day ON system_stats(site_id, day DESC);
+
+ALTER TABLE location_stats ADD COLUMN site_id INTEGER NOT NULL DEFAULT 1;
+CREATE INDEX IF NOT EXISTS idx_location_stats_site_day ON location_stats(site_id, day DESC);
+
+ALTER TABLE size_stats ADD COLUMN site_id INTEGER NOT NULL DEFAULT 1;
+CREATE INDEX IF NOT EXISTS idx_size_stats_site_day ON size_stats(site_id, day DESC);
@@ -0,0 +1,13 @@
+-- CloudCounter for Cloudflare D1
+-- Named, revocable API tokens with scoped permissions
+
+CREATE TABLE IF NOT EXISTS api_tokens (
+    token_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL,       -- SHA-256 of the token (hex); the token itself is never stored
+    prefix TEXT NOT NULL,           -- First characters of the token, to tell tokens apart
+    scopes TEXT NOT NULL DEFAULT '', -- Comma-separated: 'stats', 'export', 'settings'
+    created_at TEXT NOT NULL,       -- ISO8601 datetime
+    last_used_at TEXT,              -- ISO8601 datetime
+    UNIQUE(token_hash)
+);
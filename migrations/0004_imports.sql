@@ -0,0 +1,16 @@
+-- CloudCounter for Cloudflare D1
+-- Progress of GoatCounter CSV imports, so large files can be resumed
+
+CREATE TABLE IF NOT EXISTS imports (
+    import_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    site_id INTEGER NOT NULL REFERENCES sites(site_id),
+    filename TEXT NOT NULL DEFAULT '',
+    total_rows INTEGER NOT NULL,         -- Data rows in the file (excluding the header)
+    next_row INTEGER NOT NULL DEFAULT 0, -- First row not yet imported
+    imported INTEGER NOT NULL DEFAULT 0,
+    skipped INTEGER NOT NULL DEFAULT 0,  -- Bots and rows that failed to parse
+    status TEXT NOT NULL DEFAULT 'running', -- 'running' or 'done'
+    created_at TEXT NOT NULL,            -- ISO8601 datetime
+    updated_at TEXT NOT NULL             -- ISO8601 datetime
+);
+CREATE INDEX IF NOT EXISTS idx_imports_site ON imports(site_id, import_id DESC);
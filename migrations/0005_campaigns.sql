@@ -0,0 +1,23 @@
+-- CloudCounter for Cloudflare D1
+-- Campaign (UTM) tracking: utm_source, utm_medium and utm_campaign as a dimension
+
+CREATE TABLE IF NOT EXISTS campaigns (
+    campaign_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    source TEXT NOT NULL DEFAULT '',    -- utm_source
+    medium TEXT NOT NULL DEFAULT '',    -- utm_medium
+    campaign TEXT NOT NULL DEFAULT '',  -- utm_campaign
+    UNIQUE(source, medium, campaign)
+);
+-- Insert "no campaign"
+INSERT OR IGNORE INTO campaigns (campaign_id, source, medium, campaign) VALUES (1, '', '', '');
+
+-- Campaign stats by day
+CREATE TABLE IF NOT EXISTS campaign_stats (
+    site_id INTEGER NOT NULL DEFAULT 1,
+    path_id INTEGER NOT NULL REFERENCES paths(path_id),
+    campaign_id INTEGER NOT NULL REFERENCES campaigns(campaign_id),
+    day TEXT NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (path_id, campaign_id, day)
+) WITHOUT ROWID;
+CREATE INDEX IF NOT EXISTS idx_campaign_stats_site_day ON campaign_stats(site_id, day DESC);
@@ -0,0 +1,20 @@
+-- CloudCounter for Cloudflare D1
+-- Language stats from the Accept-Language header
+
+-- Language stats by day
+CREATE TABLE IF NOT EXISTS language_stats (
+    site_id INTEGER NOT NULL DEFAULT 1,
+    path_id INTEGER NOT NULL REFERENCES paths(path_id),
+    day TEXT NOT NULL,
+    language TEXT NOT NULL,  -- ISO 639 language code
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (path_id, day, language)
+) WITHOUT ROWID;
+CREATE INDEX IF NOT EXISTS idx_language_stats_site_day ON language_stats(site_id, day DESC);
+
+-- Backfill from the raw hits, counting first visits like the other dimension stats
+INSERT OR IGNORE INTO language_stats (site_id, path_id, day, language, count)
+SELECT site_id, path_id, substr(created_at, 1, 10), language, COUNT(*)
+FROM hits
+WHERE first_visit = 1 AND language IS NOT NULL AND language != ''
+GROUP BY site_id, path_id, substr(created_at, 1, 10), language;
@@ -0,0 +1,17 @@
+-- CloudCounter for Cloudflare D1
+-- Opt-in region (ISO 3166-2 subdivision) stats
+
+-- Regions are only recorded for sites that enable it
+ALTER TABLE sites ADD COLUMN collect_regions INTEGER NOT NULL DEFAULT 0;
+
+-- Region stats by day; cities are never stored
+CREATE TABLE IF NOT EXISTS region_stats (
+    site_id INTEGER NOT NULL DEFAULT 1,
+    path_id INTEGER NOT NULL REFERENCES paths(path_id),
+    day TEXT NOT NULL,
+    region TEXT NOT NULL,             -- ISO 3166-2 code, e.g. 'US-CA'
+    name TEXT NOT NULL DEFAULT '',    -- Region name from Cloudflare, e.g. 'California'
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (path_id, day, region)
+) WITHOUT ROWID;
+CREATE INDEX IF NOT EXISTS idx_region_stats_site_day ON region_stats(site_id, day DESC);
@@ -0,0 +1,27 @@
+-- CloudCounter for Cloudflare D1
+-- Site-level unique visitors: first hit of a session per site and day
+
+-- 1 for the first hit of a session on a site that day (first_visit is per path)
+ALTER TABLE hits ADD COLUMN first_hit INTEGER NOT NULL DEFAULT 0;
+
+-- Unique visitors by day
+CREATE TABLE IF NOT EXISTS visitor_stats (
+    site_id INTEGER NOT NULL,
+    day TEXT NOT NULL,  -- ISO date: '2024-01-15'
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (site_id, day)
+) WITHOUT ROWID;
+
+-- Backfill from the raw hits
+UPDATE hits SET first_hit = 1
+WHERE hit_id IN (
+    SELECT MIN(hit_id) FROM hits
+    WHERE session IS NOT NULL
+    GROUP BY site_id, session, substr(created_at, 1, 10)
+);
+
+INSERT OR IGNORE INTO visitor_stats (site_id, day, count)
+SELECT site_id, substr(created_at, 1, 10), COUNT(*)
+FROM hits
+WHERE first_hit = 1
+GROUP BY site_id, substr(created_at, 1, 10);
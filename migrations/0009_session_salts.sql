@@ -0,0 +1,28 @@
+-- CloudCounter for Cloudflare D1
+-- Daily rotating salt for session hashes
+
+-- One salt per UTC day; older salts are deleted when the day's salt is created
+CREATE TABLE IF NOT EXISTS session_salts (
+    day TEXT PRIMARY KEY,  -- ISO date: '2024-01-15'
+    salt TEXT NOT NULL,    -- Random hex string
+    created_at TEXT NOT NULL
+);
+
+-- Existing hashes are unsalted and can be linked across days. Replace
+-- them with random values, one per session and day.
+CREATE TABLE session_map AS
+SELECT session, day, lower(hex(randomblob(32))) AS new_session
+FROM (
+    SELECT DISTINCT session, substr(created_at, 1, 10) AS day
+    FROM hits
+    WHERE session IS NOT NULL
+);
+CREATE UNIQUE INDEX idx_session_map ON session_map(session, day);
+
+UPDATE hits SET session = (
+    SELECT new_session FROM session_map m
+    WHERE m.session = hits.session AND m.day = substr(hits.created_at, 1, 10)
+)
+WHERE session IS NOT NULL;
+
+DROP TABLE session_map;
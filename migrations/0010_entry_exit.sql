@@ -0,0 +1,27 @@
+-- CloudCounter for Cloudflare D1
+-- Entry and exit pages: the first and last page of each session per day
+
+CREATE TABLE IF NOT EXISTS entry_exit_stats (
+    site_id INTEGER NOT NULL DEFAULT 1,
+    path_id INTEGER NOT NULL REFERENCES paths(path_id),
+    day TEXT NOT NULL,
+    entries INTEGER NOT NULL DEFAULT 0,  -- Sessions that started on this page
+    exits INTEGER NOT NULL DEFAULT 0,    -- Sessions that ended on this page
+    PRIMARY KEY (path_id, day)
+) WITHOUT ROWID;
+CREATE INDEX IF NOT EXISTS idx_entry_exit_stats_site_day ON entry_exit_stats(site_id, day DESC);
+
+-- Backfill from the raw hits
+INSERT OR IGNORE INTO entry_exit_stats (site_id, path_id, day, entries, exits)
+SELECT site_id, path_id, day, SUM(first_row = 1), SUM(last_row = 1)
+FROM (
+    SELECT
+        site_id,
+        path_id,
+        substr(created_at, 1, 10) AS day,
+        ROW_NUMBER() OVER (PARTITION BY site_id, session, substr(created_at, 1, 10) ORDER BY created_at, hit_id) AS first_row,
+        ROW_NUMBER() OVER (PARTITION BY site_id, session, substr(created_at, 1, 10) ORDER BY created_at DESC, hit_id DESC) AS last_row
+    FROM hits
+    WHERE session IS NOT NULL
+)
+GROUP BY site_id, path_id, day;
@@ -0,0 +1,14 @@
+-- CloudCounter for Cloudflare D1
+-- Goals: paths or events that count as a conversion
+
+CREATE TABLE IF NOT EXISTS goals (
+    goal_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    site_id INTEGER NOT NULL REFERENCES sites(site_id),
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'path',         -- 'path' or 'event'
+    match_type TEXT NOT NULL DEFAULT 'exact',  -- 'exact' or 'pattern' (GLOB, * and ? wildcards)
+    value TEXT NOT NULL,                       -- path or event name, with a leading /
+    created_at TEXT NOT NULL                   -- ISO8601 datetime
+);
+CREATE INDEX IF NOT EXISTS idx_goals_site ON goals(site_id);
+
@@ -0,0 +1,12 @@
+-- CloudCounter for Cloudflare D1
+-- Funnels: ordered steps a session passes through within a time window
+
+CREATE TABLE IF NOT EXISTS funnels (
+    funnel_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    site_id INTEGER NOT NULL REFERENCES sites(site_id),
+    name TEXT NOT NULL,
+    steps TEXT NOT NULL DEFAULT '[]',            -- JSON array of {kind, match_type, value}, matched like goals
+    window_minutes INTEGER NOT NULL DEFAULT 60,  -- max time from the first to the last step
+    created_at TEXT NOT NULL                     -- ISO8601 datetime
+);
+CREATE INDEX IF NOT EXISTS idx_funnels_site ON funnels(site_id);
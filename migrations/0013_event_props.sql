@@ -0,0 +1,20 @@
+-- CloudCounter for Cloudflare D1
+-- Custom event properties: key/value pairs sent with an event
+
+CREATE TABLE IF NOT EXISTS props (
+    prop_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    UNIQUE(key, value)
+);
+
+-- Event property stats by day
+CREATE TABLE IF NOT EXISTS prop_stats (
+    site_id INTEGER NOT NULL DEFAULT 1,
+    path_id INTEGER NOT NULL REFERENCES paths(path_id),
+    prop_id INTEGER NOT NULL REFERENCES props(prop_id),
+    day TEXT NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (path_id, prop_id, day)
+) WITHOUT ROWID;
+CREATE INDEX IF NOT EXISTS idx_prop_stats_site_day ON prop_stats(site_id, day DESC);
@@ -0,0 +1,19 @@
+-- CloudCounter for Cloudflare D1
+-- Time on page: foreground time reported by count.js when a page is left
+
+-- Engaged time of each pageview, updated by later exit beacons
+ALTER TABLE hits ADD COLUMN engaged_ms INTEGER NOT NULL DEFAULT 0;
+
+-- Exit beacons find their pageview by session and path
+CREATE INDEX IF NOT EXISTS idx_hits_session ON hits(session, path_id);
+
+CREATE TABLE IF NOT EXISTS time_stats (
+    site_id INTEGER NOT NULL DEFAULT 1,
+    path_id INTEGER NOT NULL REFERENCES paths(path_id),
+    day TEXT NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,     -- Pageviews with a reported time
+    total_ms INTEGER NOT NULL DEFAULT 0,  -- Sum of their time, for the average
+    histogram TEXT NOT NULL,              -- JSON array: count per TIME_BUCKETS bucket
+    PRIMARY KEY (path_id, day)
+) WITHOUT ROWID;
+CREATE INDEX IF NOT EXISTS idx_time_stats_site_day ON time_stats(site_id, day DESC);
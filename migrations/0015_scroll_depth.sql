@@ -0,0 +1,15 @@
+-- CloudCounter for Cloudflare D1
+-- Scroll depth: how far down a page each pageview got, reported by the exit beacon
+
+-- Deepest threshold reached (0, 25, 50, 75 or 100), NULL when not reported
+ALTER TABLE hits ADD COLUMN scroll_depth INTEGER;
+
+CREATE TABLE IF NOT EXISTS scroll_stats (
+    site_id INTEGER NOT NULL DEFAULT 1,
+    path_id INTEGER NOT NULL REFERENCES paths(path_id),
+    day TEXT NOT NULL,
+    depth INTEGER NOT NULL,             -- Deepest threshold reached, in percent
+    count INTEGER NOT NULL DEFAULT 0,   -- Pageviews that stopped at this depth
+    PRIMARY KEY (path_id, day, depth)
+) WITHOUT ROWID;
+CREATE INDEX IF NOT EXISTS idx_scroll_stats_site_day ON scroll_stats(site_id, day DESC);
@@ -0,0 +1,13 @@
+-- CloudCounter for Cloudflare D1
+-- Core Web Vitals (LCP, INP, CLS, TTFB) reported by the exit beacon
+
+CREATE TABLE IF NOT EXISTS vitals_stats (
+    site_id INTEGER NOT NULL DEFAULT 1,
+    path_id INTEGER NOT NULL REFERENCES paths(path_id),
+    day TEXT NOT NULL,
+    metric TEXT NOT NULL,               -- 'lcp', 'inp', 'cls' or 'ttfb'
+    count INTEGER NOT NULL DEFAULT 0,   -- Page loads that reported the metric
+    histogram TEXT NOT NULL,            -- JSON array: count per bucket of the metric
+    PRIMARY KEY (path_id, day, metric)
+) WITHOUT ROWID;
+CREATE INDEX IF NOT EXISTS idx_vitals_stats_site_day ON vitals_stats(site_id, day DESC);
@@ -0,0 +1,26 @@
+-- CloudCounter for Cloudflare D1
+-- JavaScript errors reported by count.js, grouped by fingerprint
+
+CREATE TABLE IF NOT EXISTS errors (
+    error_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    site_id INTEGER NOT NULL REFERENCES sites(site_id),
+    fingerprint TEXT NOT NULL,   -- SHA-256 of the normalized message, source and stack
+    message TEXT NOT NULL,
+    source TEXT NOT NULL,        -- Script URL without its query string
+    stack TEXT NOT NULL,         -- Normalized stack signature, one frame per line
+    created_at TEXT NOT NULL,    -- ISO8601 datetime the error was first seen
+    UNIQUE(site_id, fingerprint)
+);
+
+-- Error counts by page, browser, system and day
+CREATE TABLE IF NOT EXISTS error_stats (
+    site_id INTEGER NOT NULL DEFAULT 1,
+    error_id INTEGER NOT NULL REFERENCES errors(error_id),
+    path_id INTEGER NOT NULL REFERENCES paths(path_id),
+    browser_id INTEGER NOT NULL REFERENCES browsers(browser_id),
+    system_id INTEGER NOT NULL REFERENCES systems(system_id),
+    day TEXT NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (error_id, path_id, browser_id, system_id, day)
+) WITHOUT ROWID;
+CREATE INDEX IF NOT EXISTS idx_error_stats_site_day ON error_stats(site_id, day DESC);
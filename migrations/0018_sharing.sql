@@ -0,0 +1,18 @@
+-- CloudCounter for Cloudflare D1
+-- Public dashboards and read-only share links
+
+-- Public sites show a read-only dashboard at /share/<code>
+ALTER TABLE sites ADD COLUMN public INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS shares (
+    share_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    site_id INTEGER NOT NULL REFERENCES sites(site_id),
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL,       -- SHA-256 of the token (hex); the token itself is never stored
+    prefix TEXT NOT NULL,           -- First characters of the token, to tell links apart
+    widgets TEXT NOT NULL DEFAULT '', -- Comma-separated widgets shown; '' = all
+    expires_at TEXT,                -- ISO8601 datetime; NULL = never
+    created_at TEXT NOT NULL,       -- ISO8601 datetime
+    UNIQUE(token_hash)
+);
+CREATE INDEX IF NOT EXISTS idx_shares_site ON shares(site_id);
@@ -0,0 +1,51 @@
+-- CloudCounter for Cloudflare D1
+-- Visits: a session's hits until 30 minutes without one, for engagement metrics
+
+CREATE TABLE IF NOT EXISTS visits (
+    visit_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    site_id INTEGER NOT NULL DEFAULT 1,
+    session TEXT NOT NULL,             -- Session hash (hex string)
+    first_at TEXT NOT NULL,            -- ISO8601 datetime of the first hit
+    last_at TEXT NOT NULL,             -- ISO8601 datetime of the latest hit
+    pageviews INTEGER NOT NULL DEFAULT 0,
+    events INTEGER NOT NULL DEFAULT 0,
+    duration INTEGER NOT NULL DEFAULT 0 -- Seconds from the first to the latest hit
+);
+CREATE INDEX IF NOT EXISTS idx_visits_session ON visits(session, first_at DESC);
+CREATE INDEX IF NOT EXISTS idx_visits_site_first_at ON visits(site_id, first_at);
+
+-- Backfill from the raw hits
+INSERT INTO visits (site_id, session, first_at, last_at, pageviews, events, duration)
+SELECT
+    site_id,
+    session,
+    MIN(created_at),
+    MAX(created_at),
+    SUM(event = 0),
+    SUM(event = 1),
+    CAST(ROUND((julianday(MAX(created_at)) - julianday(MIN(created_at))) * 86400) AS INTEGER)
+FROM (
+    SELECT
+        site_id,
+        session,
+        day,
+        created_at,
+        event,
+        SUM(new_visit) OVER (PARTITION BY site_id, session, day ORDER BY created_at, hit_id ROWS UNBOUNDED PRECEDING) AS visit
+    FROM (
+        SELECT
+            h.site_id,
+            h.session,
+            substr(h.created_at, 1, 10) AS day,
+            h.created_at,
+            h.hit_id,
+            p.event,
+            COALESCE((julianday(h.created_at) - julianday(LAG(h.created_at) OVER (
+                PARTITION BY h.site_id, h.session, substr(h.created_at, 1, 10) ORDER BY h.created_at, h.hit_id
+            ))) * 86400 > 1800, 1) AS new_visit
+        FROM hits h
+        JOIN paths p ON h.path_id = p.path_id
+        WHERE h.session IS NOT NULL
+    )
+)
+GROUP BY site_id, session, day, visit;
@@ -0,0 +1,4 @@
+-- CloudCounter for Cloudflare D1
+-- Export pages through a site's hits in (created_at, hit_id) order
+
+CREATE INDEX IF NOT EXISTS idx_hits_site_created_at_hit ON hits(site_id, created_at, hit_id);
@@ -0,0 +1,20 @@
+-- CloudCounter for Cloudflare D1
+-- Recount entry and exit pages without events, which the 0010 backfill
+-- counted as the first or last page of a session. Days before the oldest
+-- kept hit can't be recounted and are left as they are.
+
+DELETE FROM entry_exit_stats WHERE day >= (SELECT substr(MIN(created_at), 1, 10) FROM hits);
+
+INSERT INTO entry_exit_stats (site_id, path_id, day, entries, exits)
+SELECT site_id, path_id, day, SUM(first_row = 1), SUM(last_row = 1)
+FROM (
+    SELECT
+        site_id,
+        path_id,
+        substr(created_at, 1, 10) AS day,
+        ROW_NUMBER() OVER (PARTITION BY site_id, session, substr(created_at, 1, 10) ORDER BY created_at, hit_id) AS first_row,
+        ROW_NUMBER() OVER (PARTITION BY site_id, session, substr(created_at, 1, 10) ORDER BY created_at DESC, hit_id DESC) AS last_row
+    FROM hits
+    WHERE session IS NOT NULL AND path_id IN (SELECT path_id FROM paths WHERE event = 0)
+)
+GROUP BY site_id, path_id, day;
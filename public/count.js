@@ -7,11 +7,38 @@
  * Usage:
  *   <script async src="/count.js"></script>
  *
+ * Multiple sites on one deployment:
+ *   <script async src="/count.js" data-site="blog"></script>
+ *
  * Manual tracking:
  *   cloudcounter.count({ path: '/custom-path', title: 'Custom Title' })
  *
  * Event tracking:
  *   cloudcounter.count({ path: 'signup-click', title: 'Signup Button', event: true })
+ *
+ * Event properties:
+ *   cloudcounter.count({ path: 'signup', event: true, props: { plan: 'pro', variant: 'B' } })
+ *
+ * Outbound link and file download tracking (opt-in):
+ *   <script async src="/count.js" data-track-outbound data-track-downloads></script>
+ *   <script async src="/count.js" data-track-downloads="pdf,epub"></script>
+ *
+ * Single-page apps (pageviews on pushState, replaceState and popstate;
+ * "hash" also counts hashchange and keeps the #fragment in the path):
+ *   <script async src="/count.js" data-spa></script>
+ *   <script async src="/count.js" data-spa="hash"></script>
+ *
+ * Time on page (foreground time, sent when the page is hidden or left):
+ *   <script async src="/count.js" data-track-time></script>
+ *
+ * Scroll depth (25/50/75/100%, sent with the time on page):
+ *   <script async src="/count.js" data-track-scroll></script>
+ *
+ * Core Web Vitals (LCP, INP, CLS and TTFB of the page load):
+ *   <script async src="/count.js" data-track-vitals></script>
+ *
+ * JavaScript errors (uncaught errors and unhandled rejections):
+ *   <script async src="/count.js" data-track-errors></script>
  */
 ;(function() {
   'use strict';
@@ -22,17 +49,73 @@
   var cloudcounter = window.cloudcounter || {};
   cloudcounter.loaded = true;
 
+  // Use document.currentScript (the script currently being executed)
+  var script = document.currentScript;
+
+  // Site code; without one the server matches on the page's hostname
+  var site = (script && script.getAttribute('data-site')) || '';
+
+  // File extensions counted as downloads with data-track-downloads
+  var DOWNLOAD_EXTENSIONS = [
+    '7z', 'apk', 'csv', 'deb', 'dmg', 'docx', 'epub', 'exe', 'gz', 'iso', 'mp3', 'mp4',
+    'msi', 'pdf', 'pkg', 'pptx', 'rar', 'rpm', 'tar', 'tgz', 'txt', 'xlsx', 'xz', 'zip'
+  ];
+
+  // Opt-in link tracking, configured on the script tag
+  var trackOutbound = !!(script && script.hasAttribute('data-track-outbound'));
+  var downloadExtensions = (function() {
+    if (!script || !script.hasAttribute('data-track-downloads')) return null;
+    var value = script.getAttribute('data-track-downloads');
+    if (!value) return DOWNLOAD_EXTENSIONS;
+    return value.split(',').map(function(ext) {
+      return ext.trim().toLowerCase().replace(/^\./, '');
+    }).filter(Boolean);
+  })();
+
+  // Single-page app mode: '', 'history' or 'hash'
+  var spa = script && script.hasAttribute('data-spa')
+    ? (script.getAttribute('data-spa') === 'hash' ? 'hash' : 'history')
+    : '';
+
+  // Wait this long after a navigation so the app can set the title, and
+  // so redirects and repeated history calls only count once
+  var SPA_DELAY = 100;
+
+  var spaTimer = null;
+  var lastPath = null;        // location of the latest pageview in SPA mode
+  var referrerSent = false;
+
+  // Opt-in exit beacon measurements
+  var trackTime = !!(script && script.hasAttribute('data-track-time'));
+  var trackScroll = !!(script && script.hasAttribute('data-track-scroll'));
+  var trackVitals = !!(script && script.hasAttribute('data-track-vitals'));
+  var trackErrors = !!(script && script.hasAttribute('data-track-errors'));
+
+  // Errors reported per page load, to keep error loops from flooding the endpoint
+  var MAX_ERRORS = 10;
+  var errorsSent = {};
+  var errorCount = 0;
+
+  // Scroll depth thresholds in percent
+  var SCROLL_DEPTHS = [25, 50, 75, 100];
+
+  // Pageview the exit beacon reports on, null before the first one
+  var page = null;
+
+  // Web vitals of the page load, sent with its first exit beacon
+  var vitals = {};
+  var vitalsSent = false;
+
   // Auto-detect endpoint from script source URL
-  var endpoint = (function() {
-    // Use document.currentScript (the script currently being executed)
-    var script = document.currentScript;
+  var origin = (function() {
     if (script && script.src) {
-      var url = new URL(script.src);
-      return url.origin + '/api/count';
+      return new URL(script.src).origin;
     }
-    // Fallback to relative path if script not found
-    return '/api/count';
+    // Fallback to relative paths if script not found
+    return '';
   })();
+  var endpoint = origin + '/api/count';
+  var errorEndpoint = origin + '/api/error';
 
   /**
    * Get pageview data
@@ -44,15 +127,31 @@
       p: vars.path || getPath(),
       t: vars.title || document.title,
       r: vars.referrer || getReferrer(),
+      q: location.search,
       e: vars.event ? 1 : 0,
+      pr: vars.event ? getProps(vars.props) : '',
       s: screen.width,
       b: isBot(),
+      site: site,
       rnd: Math.random().toString(36).substr(2, 5)
     };
 
     return data;
   }
 
+  /**
+   * Encode event properties as JSON (empty without any)
+   */
+  function getProps(props) {
+    if (!props || typeof props !== 'object') return '';
+    for (var k in props) {
+      if (Object.prototype.hasOwnProperty.call(props, k)) {
+        return JSON.stringify(props);
+      }
+    }
+    return '';
+  }
+
   /**
    * Get current path (with canonical support)
    */
@@ -71,13 +170,26 @@
       }
     }
 
-    return (loc.pathname + loc.search) || '/';
+    return (loc.pathname + loc.search + (spa === 'hash' ? location.hash : '')) || '/';
+  }
+
+  /**
+   * Get the current location as a path, ignoring the canonical link
+   * (apps don't always update it on navigation)
+   */
+  function getLocationPath() {
+    return location.pathname + location.search + (spa === 'hash' ? location.hash : '');
   }
 
   /**
    * Get referrer (excluding self-referrals)
+   * In SPA mode only the first hit has one: document.referrer stays the
+   * same on in-app navigations, which come from this site
    */
   function getReferrer() {
+    if (spa && referrerSent) return '';
+    referrerSent = true;
+
     var ref = document.referrer;
     if (!ref) return '';
 
@@ -165,8 +277,14 @@
     if (filter()) return;
 
     var data = getData(vars);
-    var url = endpoint + urlencode(data);
+    if (!data.e) startPage(data.p);
+    send(endpoint + urlencode(data));
+  };
 
+  /**
+   * Send a request to the endpoint
+   */
+  function send(url) {
     // Use sendBeacon if available (doesn't block page unload)
     if (navigator.sendBeacon) {
       navigator.sendBeacon(url);
@@ -176,32 +294,323 @@
     // Fallback to image request
     var img = new Image();
     img.src = url;
-  };
+  }
+
+  /**
+   * Start measuring a new pageview, reporting on the previous one first
+   */
+  function startPage(path) {
+    if (!trackTime && !trackScroll && !trackVitals) return;
+
+    sendExit();
+    page = {
+      path: path,
+      load: page === null,
+      engaged: 0,
+      visibleSince: document.visibilityState === 'visible' ? Date.now() : null,
+      scroll: 0,
+      sent: ''
+    };
+  }
+
+  /**
+   * Add the time since the page became visible to its engaged time
+   */
+  function pauseTimer() {
+    if (page.visibleSince !== null) {
+      page.engaged += Date.now() - page.visibleSince;
+      page.visibleSince = null;
+    }
+  }
 
   /**
-   * Track element clicks
+   * Send the exit beacon for the current pageview
+   * It is sent every time the page is hidden, with the totals so far;
+   * the server keeps the latest.
+   */
+  function sendExit() {
+    if (!page) return;
+
+    pauseTimer();
+    updateScroll();
+    var data = {
+      x: 1,
+      p: page.path,
+      tm: trackTime ? page.engaged : '',
+      sd: trackScroll ? page.scroll : '',
+      b: isBot(),
+      site: site
+    };
+
+    // Vitals are measured until the page load is first hidden or left
+    if (trackVitals && page.load && !vitalsSent) {
+      vitalsSent = true;
+      data.lcp = vitals.lcp;
+      data.inp = vitals.inp;
+      data.cls = vitals.cls === undefined ? undefined : vitals.cls.toFixed(4);
+      data.ttfb = vitals.ttfb;
+    } else if (!trackTime && !trackScroll) {
+      return;
+    }
+
+    // Nothing changed since the previous beacon
+    var query = urlencode(data);
+    if (query === page.sent) return;
+    page.sent = query;
+
+    send(endpoint + query);
+  }
+
+  /**
+   * Record the deepest scroll threshold the page reached
+   */
+  function updateScroll() {
+    if (!trackScroll || !page) return;
+
+    var doc = document.documentElement;
+    var height = Math.max(doc.scrollHeight, document.body ? document.body.scrollHeight : 0);
+    if (height <= 0) return;
+
+    // Allow a pixel for rounding at the bottom of the page
+    var seen = ((window.pageYOffset || doc.scrollTop) + window.innerHeight + 1) / height * 100;
+    for (var i = 0; i < SCROLL_DEPTHS.length; i++) {
+      if (seen >= SCROLL_DEPTHS[i] && SCROLL_DEPTHS[i] > page.scroll) {
+        page.scroll = SCROLL_DEPTHS[i];
+      }
+    }
+  }
+
+  /**
+   * Measure Core Web Vitals of the page load with PerformanceObserver
+   * Browsers without support for a metric leave it out.
+   */
+  function observeVitals() {
+    if (!trackVitals || typeof PerformanceObserver === 'undefined') return;
+
+    // Time to First Byte
+    var navigation = performance.getEntriesByType && performance.getEntriesByType('navigation')[0];
+    if (navigation && navigation.responseStart > 0) {
+      vitals.ttfb = Math.round(navigation.responseStart);
+    }
+
+    // Largest Contentful Paint: the latest candidate
+    observe('largest-contentful-paint', function(entry) {
+      vitals.lcp = Math.round(entry.startTime);
+    });
+
+    // Cumulative Layout Shift: the largest session window of shifts less
+    // than a second apart, five seconds at most
+    var windowValue = 0;
+    var windowStart = 0;
+    var lastShift = 0;
+    observe('layout-shift', function(entry) {
+      if (entry.hadRecentInput) return;
+      if (windowValue && entry.startTime - lastShift < 1000 && entry.startTime - windowStart < 5000) {
+        windowValue += entry.value;
+      } else {
+        windowValue = entry.value;
+        windowStart = entry.startTime;
+      }
+      lastShift = entry.startTime;
+      vitals.cls = Math.max(vitals.cls || 0, windowValue);
+    });
+
+    // Interaction to Next Paint: the slowest interaction, ignoring one in
+    // every 50 on busy pages
+    var interactions = {};
+    var onInteraction = function(entry) {
+      if (!entry.interactionId) return;
+      interactions[entry.interactionId] = Math.max(interactions[entry.interactionId] || 0, entry.duration);
+
+      var durations = [];
+      for (var id in interactions) durations.push(interactions[id]);
+      durations.sort(function(a, b) { return b - a; });
+      vitals.inp = Math.round(durations[Math.min(durations.length - 1, Math.floor(durations.length / 50))]);
+    };
+    observe('event', onInteraction, 40);
+    observe('first-input', onInteraction);
+  }
+
+  /**
+   * Observe performance entries of a type, including earlier (buffered) ones
+   */
+  function observe(type, callback, durationThreshold) {
+    try {
+      var options = { type: type, buffered: true };
+      if (durationThreshold) options.durationThreshold = durationThreshold;
+      new PerformanceObserver(function(list) {
+        list.getEntries().forEach(callback);
+      }).observe(options);
+    } catch (e) {
+      // Entry type not supported
+    }
+  }
+
+  /**
+   * Report uncaught errors and unhandled promise rejections
+   */
+  function bindErrors() {
+    if (!trackErrors) return;
+
+    window.addEventListener('error', function(e) {
+      // Failed resource loads have no message
+      if (!e.message) return;
+      reportError(e.message, e.filename, e.error && e.error.stack);
+    });
+
+    window.addEventListener('unhandledrejection', function(e) {
+      var reason = e.reason;
+      var message = reason && reason.message ? reason.message : String(reason);
+      reportError('Unhandled rejection: ' + message, '', reason && reason.stack);
+    });
+  }
+
+  /**
+   * Send an error once per page load
+   */
+  function reportError(message, source, stack) {
+    if (filter() || errorCount >= MAX_ERRORS) return;
+
+    var data = {
+      p: spa ? getLocationPath() : getPath(),
+      m: String(message).slice(0, 500),
+      src: stripUrl(source || ''),
+      st: getStackSignature(stack),
+      b: isBot(),
+      site: site
+    };
+
+    var key = data.m + '|' + data.src + '|' + data.st;
+    if (errorsSent[key]) return;
+    errorsSent[key] = true;
+    errorCount++;
+
+    send(errorEndpoint + urlencode(data));
+  }
+
+  /**
+   * Normalize a stack trace to its top frames as "function file:line:column",
+   * the same across browsers that use "at fn (url)" or "fn@url"
+   */
+  function getStackSignature(stack) {
+    if (!stack) return '';
+
+    var frames = [];
+    var lines = String(stack).split('\n');
+    for (var i = 0; i < lines.length && frames.length < 10; i++) {
+      var match = lines[i].match(/^\s*(?:at\s+)?(?:(.*?)\s*[@(]\s*)?((?:https?|file):\/\/[^\s)]+?):(\d+):(\d+)\)?\s*$/);
+      if (match) {
+        frames.push((match[1] || '?') + ' ' + stripUrl(match[2]) + ':' + match[3] + ':' + match[4]);
+      }
+    }
+    return frames.join('\n');
+  }
+
+  /**
+   * Drop the query string, fragment and, for this site's scripts, the origin
+   */
+  function stripUrl(url) {
+    url = url.replace(/[?#].*$/, '');
+    return url.indexOf(location.origin + '/') === 0 ? url.slice(location.origin.length) : url;
+  }
+
+  /**
+   * Send exit beacons when the page is hidden or unloaded
+   */
+  function bindExit() {
+    if (!trackTime && !trackScroll && !trackVitals) return;
+
+    observeVitals();
+
+    if (trackScroll) {
+      window.addEventListener('scroll', updateScroll, { passive: true });
+    }
+
+    document.addEventListener('visibilitychange', function() {
+      if (!page) return;
+      if (document.visibilityState === 'hidden') {
+        sendExit();
+      } else if (page.visibleSince === null) {
+        page.visibleSince = Date.now();
+      }
+    });
+    window.addEventListener('pagehide', sendExit);
+  }
+
+  /**
+   * Track element clicks, and outbound links and downloads when enabled
    * Usage: <button data-cloudcounter-click="signup-btn">Sign Up</button>
    */
   cloudcounter.bindEvents = function() {
     document.addEventListener('click', function(e) {
-      var target = e.target;
-
-      // Walk up the DOM tree looking for data-cloudcounter-click
-      while (target && target !== document.body) {
-        var clickPath = target.getAttribute('data-cloudcounter-click');
-        if (clickPath) {
-          cloudcounter.count({
-            path: clickPath,
-            title: target.getAttribute('data-cloudcounter-title') || target.innerText.trim().slice(0, 50),
-            event: true
-          });
-          return;
-        }
-        target = target.parentElement;
-      }
+      handleClick(e.target, false);
+    });
+
+    // Middle clicks open links in a new tab without a click event
+    document.addEventListener('auxclick', function(e) {
+      if (e.button === 1) handleClick(e.target, true);
     });
   };
 
+  /**
+   * Walk up the DOM tree from a clicked element looking for
+   * data-cloudcounter-click or a tracked link
+   */
+  function handleClick(target, linksOnly) {
+    while (target && target !== document.body) {
+      var clickPath = !linksOnly && target.getAttribute('data-cloudcounter-click');
+      if (clickPath) {
+        cloudcounter.count({
+          path: clickPath,
+          title: getTitle(target),
+          event: true
+        });
+        return;
+      }
+      if (target.tagName === 'A' && target.href) {
+        trackLink(target);
+        return;
+      }
+      target = target.parentElement;
+    }
+  }
+
+  /**
+   * Count a link click as an event with the destination as its path:
+   * the full URL for other sites, the path for downloads from this one
+   */
+  function trackLink(link) {
+    if (!trackOutbound && !downloadExtensions) return;
+
+    var url;
+    try {
+      url = new URL(link.href, location.href);
+    } catch (e) {
+      return;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return;
+
+    var external = url.hostname.replace(/^www\./, '') !== location.hostname.replace(/^www\./, '');
+    var extension = (url.pathname.match(/\.([a-z0-9]+)$/i) || [])[1];
+    var download = !!(downloadExtensions && extension &&
+      downloadExtensions.indexOf(extension.toLowerCase()) !== -1);
+
+    if (!download && !(trackOutbound && external)) return;
+
+    cloudcounter.count({
+      path: external ? url.origin + url.pathname + url.search : url.pathname + url.search,
+      title: getTitle(link),
+      event: true
+    });
+  }
+
+  /**
+   * Get an event title for a clicked element
+   */
+  function getTitle(element) {
+    return element.getAttribute('data-cloudcounter-title') || element.innerText.trim().slice(0, 50);
+  }
+
   /**
    * Helper to skip tracking for current session
    */
@@ -226,27 +635,78 @@
 
     // Wait for page to be visible
     if (document.visibilityState === 'visible') {
-      cloudcounter.count();
+      countPageview();
     } else {
       document.addEventListener('visibilitychange', function handler() {
         if (document.visibilityState === 'visible') {
-          cloudcounter.count();
+          countPageview();
           document.removeEventListener('visibilitychange', handler);
         }
       });
     }
   }
 
+  function countPageview() {
+    lastPath = getLocationPath();
+    cloudcounter.count();
+  }
+
+  /**
+   * Count History API navigations in SPA mode
+   */
+  function bindNavigation() {
+    if (!spa) return;
+
+    ['pushState', 'replaceState'].forEach(function(method) {
+      var original = history[method];
+      if (typeof original !== 'function') return;
+      history[method] = function() {
+        var result = original.apply(this, arguments);
+        onNavigate();
+        return result;
+      };
+    });
+
+    window.addEventListener('popstate', onNavigate);
+    if (spa === 'hash') {
+      window.addEventListener('hashchange', onNavigate);
+    }
+  }
+
+  /**
+   * Count a pageview once navigation settles, unless the path is unchanged
+   * (e.g. replaceState for scroll position or state only)
+   */
+  function onNavigate() {
+    clearTimeout(spaTimer);
+    spaTimer = setTimeout(function() {
+      // The first pageview hasn't been sent yet and will use the new location
+      if (lastPath === null) return;
+
+      var path = getLocationPath();
+      if (path === lastPath) return;
+      lastPath = path;
+      cloudcounter.count({ path: path });
+    }, SPA_DELAY);
+  }
+
   // Run on DOM ready
   if (document.body === null) {
     document.addEventListener('DOMContentLoaded', function() {
       autoCount();
       cloudcounter.bindEvents();
+      bindNavigation();
+      bindExit();
     });
   } else {
     autoCount();
     cloudcounter.bindEvents();
+    bindNavigation();
+    bindExit();
   }
 
+  // Errors can happen before the DOM is ready
+  bindErrors();
+
   window.cloudcounter = cloudcounter;
 })();
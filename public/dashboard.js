@@ -25,9 +25,11 @@
   function init() {
     initChart();
     initSparklines();
+    initFunnels();
     initNavigation();
     initFilter();
     initDatePickers();
+    initSiteSwitcher();
   }
 
   // ============================================
@@ -517,6 +519,79 @@
     }
   }
 
+  // ============================================
+  // FUNNELS
+  // ============================================
+
+  var funnelListeners = false;
+
+  function initFunnels() {
+    var canvases = document.querySelectorAll('.funnel-canvas');
+    if (canvases.length === 0) return;
+
+    canvases.forEach(drawFunnel);
+    if (!funnelListeners) {
+      funnelListeners = true;
+      window.addEventListener('resize', function() {
+        document.querySelectorAll('.funnel-canvas').forEach(drawFunnel);
+      });
+      // Funnels in collapsed mobile widgets have no size until opened
+      document.querySelectorAll('.widget-details').forEach(function(details) {
+        details.addEventListener('toggle', function() {
+          details.querySelectorAll('.funnel-canvas').forEach(drawFunnel);
+        });
+      });
+    }
+  }
+
+  function drawFunnel(canvas) {
+    var valuesAttr = canvas.getAttribute('data-values');
+    if (!valuesAttr) return;
+
+    var values = valuesAttr.split(',').map(function(v) { return parseInt(v, 10) || 0; });
+    if (values.length === 0) return;
+
+    var ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    var dpr = window.devicePixelRatio || 1;
+    var rect = canvas.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+
+    canvas.width = rect.width * dpr;
+    canvas.height = rect.height * dpr;
+    ctx.scale(dpr, dpr);
+
+    var w = rect.width;
+    var h = rect.height;
+    var labelHeight = 16;
+    var gap = 8;
+    var chartHeight = h - labelHeight;
+    var barSpacing = w / values.length;
+    var barWidth = Math.max(4, barSpacing - gap);
+    var first = values[0] || 1;
+
+    ctx.clearRect(0, 0, w, h);
+    ctx.font = '11px -apple-system, BlinkMacSystemFont, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+
+    for (var i = 0; i < values.length; i++) {
+      var x = i * barSpacing + (barSpacing - barWidth) / 2;
+      var barHeight = (values[i] / first) * chartHeight;
+
+      // Full-height background shows the sessions lost so far
+      ctx.fillStyle = ACCENT_LIGHT;
+      ctx.fillRect(x, labelHeight, barWidth, chartHeight);
+
+      ctx.fillStyle = ACCENT;
+      ctx.fillRect(x, h - barHeight, barWidth, barHeight);
+
+      ctx.fillStyle = TEXT_COLOR;
+      ctx.fillText(Math.round((values[i] / first) * 100) + '%', x + barWidth / 2, 0);
+    }
+  }
+
   // ============================================
   // DATE NAVIGATION
   // ============================================
@@ -595,6 +670,15 @@
     }
   }
 
+  function initSiteSwitcher() {
+    var select = document.querySelector('.site-select');
+    if (!select) return;
+
+    select.addEventListener('change', function() {
+      select.form.submit();
+    });
+  }
+
   // ============================================
   // FILTER
   // ============================================
@@ -614,14 +698,20 @@
       }, 200);
     });
 
-    // Submit on enter
+    // Submit on enter to filter all stats server-side
     filterInput.addEventListener('keypress', function(e) {
       if (e.key === 'Enter') {
         e.preventDefault();
-        // For server-side filtering, uncomment:
-        // document.getElementById('dashboard-form').submit();
+        document.getElementById('dashboard-form').submit();
       }
     });
+
+    var eventsToggle = document.querySelector('.events-toggle input');
+    if (eventsToggle) {
+      eventsToggle.addEventListener('change', function() {
+        document.getElementById('dashboard-form').submit();
+      });
+    }
   }
 
   function filterPages(query) {
@@ -705,6 +795,7 @@
     if (document.visibilityState === 'visible') {
       drawChart();
       initSparklines();
+      initFunnels();
     }
   });
 })();
@@ -0,0 +1,162 @@
+/**
+ * CloudCounter GoatCounter import
+ * Splits the CSV into rows in the browser and uploads them in chunks
+ */
+;(function() {
+  'use strict';
+
+  var MAX_RETRIES = 3;
+
+  var form = document.getElementById('import-form');
+  var status = document.getElementById('import-status');
+  if (!form || !status) return;
+
+  var chunkRows = parseInt(form.getAttribute('data-chunk-rows'), 10) || 500;
+
+  form.addEventListener('submit', function(e) {
+    e.preventDefault();
+
+    var file = form.elements.file.files[0];
+    if (!file) return;
+
+    var button = form.querySelector('button');
+    button.disabled = true;
+
+    runImport(file, form.elements.site.value)
+      .catch(function(err) {
+        setStatus(err.message + ' Select the same file again to resume.');
+      })
+      .then(function() {
+        button.disabled = false;
+      });
+  });
+
+  /**
+   * Import a file, resuming an unfinished import of the same file
+   */
+  function runImport(file, site) {
+    setStatus('Reading ' + file.name + '…');
+
+    return file.text().then(function(text) {
+      var records = splitRecords(text);
+      var header = records.shift() || '';
+      var rows = records.filter(function(r) { return r !== ''; });
+
+      return findOrCreateJob(site, file.name, header, rows.length).then(function(job) {
+        return uploadFrom(job, rows);
+      });
+    });
+  }
+
+  /**
+   * Find an unfinished import of the same file into the same site, or
+   * start a new one
+   */
+  function findOrCreateJob(site, filename, header, totalRows) {
+    return request('GET', '/api/v0/import?site=' + encodeURIComponent(site)).then(function(res) {
+      var unfinished = (res.data || []).filter(function(job) {
+        return job.status === 'running' &&
+          job.filename === filename &&
+          job.total_rows === totalRows;
+      })[0];
+
+      if (unfinished) {
+        setStatus('Resuming at row ' + unfinished.next_row.toLocaleString() + '…');
+        return unfinished;
+      }
+
+      return request('POST', '/api/v0/import', JSON.stringify({
+        site: site,
+        filename: filename,
+        header: header,
+        total_rows: totalRows
+      })).then(function(res) { return res.data; });
+    });
+  }
+
+  /**
+   * Upload chunks until the job is done
+   */
+  function uploadFrom(job, rows, retries) {
+    retries = retries || 0;
+
+    if (job.status === 'done') {
+      setStatus('Done: ' + job.imported.toLocaleString() + ' rows imported, ' + job.skipped.toLocaleString() + ' skipped.');
+      return Promise.resolve();
+    }
+
+    setStatus('Imported ' + job.next_row.toLocaleString() + ' of ' + job.total_rows.toLocaleString() + ' rows…');
+
+    var chunk = rows.slice(job.next_row, job.next_row + chunkRows).join('\n');
+    var url = '/api/v0/import/' + job.import_id + '?offset=' + job.next_row;
+
+    return request('POST', url, chunk).then(function(res) {
+      return uploadFrom(res.data, rows);
+    }, function(err) {
+      // The server is at a different row: continue from there
+      if (err.status === 409 && err.body && err.body.data) {
+        return uploadFrom(err.body.data, rows);
+      }
+      if (retries < MAX_RETRIES) {
+        return delay(1000 * Math.pow(2, retries)).then(function() {
+          return uploadFrom(job, rows, retries + 1);
+        });
+      }
+      throw err;
+    });
+  }
+
+  /**
+   * Split CSV text into records, keeping quoted newlines inside fields
+   */
+  function splitRecords(text) {
+    var records = [];
+    var start = 0;
+    var inQuotes = false;
+
+    for (var i = 0; i < text.length; i++) {
+      var c = text.charAt(i);
+      if (c === '"') {
+        inQuotes = !inQuotes;
+      } else if ((c === '\n' || c === '\r') && !inQuotes) {
+        records.push(text.slice(start, i));
+        if (c === '\r' && text.charAt(i + 1) === '\n') i++;
+        start = i + 1;
+      }
+    }
+    if (start < text.length) {
+      records.push(text.slice(start));
+    }
+
+    return records;
+  }
+
+  /**
+   * Send an API request and parse the JSON response
+   */
+  function request(method, url, body) {
+    return fetch(url, {
+      method: method,
+      body: body,
+      credentials: 'same-origin'
+    }).then(function(res) {
+      return res.json().catch(function() { return {}; }).then(function(json) {
+        if (!res.ok) {
+          var err = new Error(json.error || ('Request failed (' + res.status + ').'));
+          err.status = res.status;
+          err.body = json;
+          throw err;
+        }
+        return json;
+      });
+    });
+  }
+
+  function delay(ms) {
+    return new Promise(function(resolve) { setTimeout(resolve, ms); });
+  }
+
+  function setStatus(message) {
+    status.textContent = message;
+  }
+})();
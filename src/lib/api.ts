@@ -0,0 +1,46 @@
+/**
+ * Helpers for the versioned JSON API
+ */
+
+import type { Site } from '../types';
+import { getSites, selectSite } from './sites';
+
+// Bumped when a response shape changes incompatibly
+export const API_VERSION = 0;
+
+/**
+ * Return a JSON response
+ */
+export function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
+
+/**
+ * Return a JSON error response
+ */
+export function jsonError(message: string, status: number): Response {
+  return jsonResponse({ version: API_VERSION, error: message }, status);
+}
+
+/**
+ * Resolve the site for an API request
+ *
+ * Unlike the dashboard, an unknown `site` parameter is an error rather
+ * than silently falling back to the first site.
+ */
+export async function getApiSite(db: D1Database, searchParams: URLSearchParams): Promise<Site | null> {
+  const sites = await getSites(db);
+  const param = searchParams.get('site');
+  const site = selectSite(sites, param);
+
+  if (!site || (param && site.code !== param && String(site.site_id) !== param)) {
+    return null;
+  }
+  return site;
+}
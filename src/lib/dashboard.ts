@@ -0,0 +1,1200 @@
+/**
+ * Dashboard data loading and rendering
+ *
+ * Shared by the main dashboard and by read-only share links, which render
+ * the same view without the site switcher, admin links or exports, and
+ * optionally with only some of the widgets.
+ */
+
+import type {
+  DashboardData,
+  DashboardView,
+  DashboardWidget,
+  EventStats,
+  PageWithChange,
+  Path,
+  Site,
+  VitalMetric,
+  VitalRating
+} from '../types';
+import {
+  getTopPagesWithChange,
+  getTotalsWithChange,
+  getEngagementWithChange,
+  getTotalHitsWithGranularity,
+  getEntryPages,
+  getExitPages,
+  getTimeOnPage,
+  getVitals,
+  getErrorStats,
+  getTopRefs,
+  getGoalStats,
+  getFunnelStats,
+  getEventStats,
+  getOutboundStats,
+  getPropStats,
+  getScrollDepth,
+  getBrowserStats,
+  getSystemStats,
+  getLocationStats,
+  getRegionStats,
+  getSizeStats,
+  getLanguageStats,
+  getCampaignStats,
+  getPath,
+  parsePeriodExtended,
+  parseScope
+} from '../stats/queries';
+import { escapeHtml, formatNumber } from './html';
+import { DEVICE_CLASSES, getDeviceClass } from './db';
+import { VITALS } from './vitals';
+
+// Country code to name mapping (common countries)
+const COUNTRY_NAMES: Record<string, string> = {
+  US: 'United States', GB: 'United Kingdom', DE: 'Germany', FR: 'France',
+  CA: 'Canada', AU: 'Australia', NL: 'Netherlands', JP: 'Japan',
+  IN: 'India', BR: 'Brazil', ES: 'Spain', IT: 'Italy', RU: 'Russia',
+  CN: 'China', KR: 'South Korea', MX: 'Mexico', PL: 'Poland', SE: 'Sweden',
+  CH: 'Switzerland', AT: 'Austria', BE: 'Belgium', NO: 'Norway', DK: 'Denmark',
+  FI: 'Finland', PT: 'Portugal', CZ: 'Czech Republic', IE: 'Ireland', NZ: 'New Zealand',
+  SG: 'Singapore', HK: 'Hong Kong', TW: 'Taiwan', IL: 'Israel', ZA: 'South Africa',
+  AR: 'Argentina', CL: 'Chile', CO: 'Colombia', UA: 'Ukraine', TR: 'Turkey',
+  TH: 'Thailand', VN: 'Vietnam', PH: 'Philippines', MY: 'Malaysia', ID: 'Indonesia',
+};
+
+// Language code to name mapping (common languages)
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English', de: 'German', fr: 'French', es: 'Spanish', it: 'Italian',
+  pt: 'Portuguese', nl: 'Dutch', ru: 'Russian', ja: 'Japanese', zh: 'Chinese',
+  ko: 'Korean', ar: 'Arabic', hi: 'Hindi', pl: 'Polish', sv: 'Swedish',
+  no: 'Norwegian', nb: 'Norwegian Bokmål', nn: 'Norwegian Nynorsk', da: 'Danish',
+  fi: 'Finnish', cs: 'Czech', sk: 'Slovak', hu: 'Hungarian', ro: 'Romanian',
+  bg: 'Bulgarian', el: 'Greek', tr: 'Turkish', uk: 'Ukrainian', he: 'Hebrew',
+  fa: 'Persian', th: 'Thai', vi: 'Vietnamese', id: 'Indonesian', ms: 'Malay',
+  hr: 'Croatian', sr: 'Serbian', sl: 'Slovenian', lt: 'Lithuanian', lv: 'Latvian',
+  et: 'Estonian', ca: 'Catalan', eu: 'Basque', gl: 'Galician', ga: 'Irish',
+  is: 'Icelandic', bn: 'Bengali', ta: 'Tamil', ur: 'Urdu', tl: 'Tagalog',
+  fil: 'Filipino', sw: 'Swahili', af: 'Afrikaans',
+};
+
+// Longest period a read-only view shows, in days (the "year" link fits)
+const MAX_READ_ONLY_DAYS = 366;
+
+// Core Web Vitals rating labels
+const VITAL_RATINGS: Record<VitalRating, string> = {
+  'good': 'Good',
+  'needs-improvement': 'Needs improvement',
+  'poor': 'Poor',
+};
+
+/**
+ * Load the dashboard data for a site from the request's query parameters
+ * Returns null if the requested page doesn't exist or isn't shown in this view
+ */
+export async function loadDashboardData(
+  db: D1Database,
+  url: URL,
+  site: Site,
+  sites: Site[],
+  view: DashboardView
+): Promise<DashboardData | null> {
+  const show = (widget: DashboardWidget) => showWidget(view, widget);
+
+  // The path filter and events toggle would scope the totals and the shown
+  // widgets to any path or event, so they need the lists they belong to
+  const params = new URLSearchParams(url.searchParams);
+  if (!show('pages')) params.delete('filter');
+  if (!show('events')) params.delete('events');
+
+  // Parse period parameters (extended with granularity and filter); read-only
+  // views need no password, so they can't query more than a year at once
+  const parsed = parsePeriodExtended(params);
+  const { end, period, granularity, filter } = parsed;
+  const start = view.readOnly ? capPeriodStart(parsed.start, end) : parsed.start;
+  const scope = parseScope(site.site_id, params);
+
+  // Detail view of a single page, reachable only through a visible list
+  let path: Path | null = null;
+  if (scope.pathId) {
+    path = await getPath(db, site.site_id, scope.pathId);
+    if (!path || !show(path.event ? 'events' : 'pages')) {
+      return null;
+    }
+  }
+
+  // Fetch all data in parallel, skipping widgets this view hides
+  const [
+    totals,
+    engagement,
+    { timeSeries },
+    pagesResult,
+    events,
+    outbound,
+    entryPages,
+    exitPages,
+    timeOnPage,
+    vitals,
+    errors,
+    goals,
+    funnels,
+    refs,
+    browsers,
+    systems,
+    locations,
+    regions,
+    sizes,
+    languages,
+    campaigns,
+    props,
+    scrollDepth
+  ] = await Promise.all([
+    getTotalsWithChange(db, scope, start, end),
+    getEngagementWithChange(db, scope, start, end),
+    getTotalHitsWithGranularity(db, scope, start, end, granularity),
+    show('pages') ? getTopPagesWithChange(db, scope, start, end, 10) : { pages: [], hasMore: false, totalCount: 0 },
+    path || !show('events') ? null : getEventStats(db, scope, start, end, 10),
+    path || !show('outbound') ? [] : getOutboundStats(db, scope, start, end, 10),
+    show('entries') ? getEntryPages(db, scope, start, end, 10) : [],
+    show('exits') ? getExitPages(db, scope, start, end, 10) : [],
+    show('time') ? getTimeOnPage(db, scope, start, end, 10) : [],
+    show('vitals') ? getVitals(db, scope, start, end) : [],
+    show('errors') ? getErrorStats(db, scope, start, end, 10) : [],
+    show('goals') ? getGoalStats(db, scope, start, end) : [],
+    show('funnels') ? getFunnelStats(db, scope, start, end) : [],
+    show('refs') ? getTopRefs(db, scope, start, end, 10) : [],
+    show('browsers') ? getBrowserStats(db, scope, start, end, 10) : [],
+    show('systems') ? getSystemStats(db, scope, start, end, 10) : [],
+    show('locations') ? getLocationStats(db, scope, start, end, 10) : [],
+    show('locations') ? getRegionStats(db, scope, start, end, 10) : [],
+    show('sizes') ? getSizeStats(db, scope, start, end) : [],
+    show('languages') ? getLanguageStats(db, scope, start, end, 10) : [],
+    show('campaigns') ? getCampaignStats(db, scope, start, end, 10) : [],
+    path?.event ? getPropStats(db, scope, start, end, 10) : [],
+    path && !path.event ? getScrollDepth(db, scope, start, end) : []
+  ]);
+
+  return {
+    siteName: site.name || site.code,
+    site,
+    sites,
+    view,
+    start: start.slice(0, 10),
+    end: end.slice(0, 10),
+    period,
+    granularity,
+    filter,
+    includeEvents: scope.events === 'include',
+    path,
+    totalHits: totals.totalHits,
+    totalHitsChange: totals.totalHitsChange,
+    totalVisitors: totals.totalVisitors,
+    totalVisitorsChange: totals.totalVisitorsChange,
+    engagement,
+    entryPages,
+    exitPages,
+    timeOnPage,
+    vitals,
+    errors,
+    goals,
+    funnels,
+    timeSeries,
+    events,
+    outbound,
+    pages: pagesResult.pages,
+    hasMorePages: pagesResult.hasMore,
+    totalPagesCount: pagesResult.totalCount,
+    refs,
+    browsers,
+    systems,
+    locations,
+    regions,
+    sizes,
+    languages,
+    campaigns,
+    props,
+    scrollDepth
+  };
+}
+
+/**
+ * Move a period's start forward so it spans at most MAX_READ_ONLY_DAYS
+ */
+function capPeriodStart(start: string, end: string): string {
+  const earliest = new Date(end);
+  earliest.setUTCDate(earliest.getUTCDate() - MAX_READ_ONLY_DAYS);
+  earliest.setUTCHours(0, 0, 0, 0);
+  return start < earliest.toISOString() ? earliest.toISOString() : start;
+}
+
+/**
+ * Check if a view includes a widget
+ */
+function showWidget(view: DashboardView, widget: DashboardWidget): boolean {
+  return view.widgets === null || view.widgets.includes(widget);
+}
+
+/**
+ * Render dashboard HTML
+ */
+export function renderDashboard(data: DashboardData): string {
+  const dateRange = formatDateRange(data.start, data.end);
+  const siteParam = `site=${encodeURIComponent(data.site.code)}`;
+  // Period links keep the filter, the events toggle or the page being viewed
+  const scopeParam = data.path
+    ? `${siteParam}&path_id=${data.path.path_id}`
+    : `${siteParam}${data.filter ? `&filter=${encodeURIComponent(data.filter)}` : ''}${data.includeEvents ? '&events=1' : ''}`;
+  const show = (widget: DashboardWidget) => showWidget(data.view, widget);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0, viewport-fit=cover">
+  <title>${escapeHtml(data.siteName)} - Analytics</title>
+  ${data.view.readOnly ? '<meta name="robots" content="noindex">' : ''}
+  <link rel="stylesheet" href="/dashboard.css">
+</head>
+<body>
+  <header class="header">
+    <div class="header-inner">
+      <div class="logo">☁️ CloudCounter</div>
+      ${data.view.readOnly ? `<div class="header-site">${escapeHtml(data.siteName)}</div>` : `<nav class="header-nav">
+        ${renderSiteSwitcher(data)}
+        <a href="/sites">Sites</a>
+        <a href="/goals?${siteParam}">Goals</a>
+        <a href="/funnels?${siteParam}">Funnels</a>
+        <a href="/sharing?${siteParam}">Sharing</a>
+        <a href="/import">Import</a>
+        <a href="/tokens">API tokens</a>
+        <a href="/logout" class="logout-btn">Sign out</a>
+      </nav>`}
+    </div>
+  </header>
+
+  <main class="main">
+    <form id="dashboard-form" method="GET" action="${escapeHtml(data.view.base)}">
+      <input type="hidden" name="site" value="${escapeHtml(data.site.code)}" />
+      ${data.path ? `<input type="hidden" name="path_id" value="${data.path.path_id}" />` : ''}
+      <section class="controls">
+        <div class="controls-row">
+          <div class="date-picker-group">
+            <input type="date" name="period-start" class="date-input" value="${data.start}" />
+            <span class="date-separator">–</span>
+            <input type="date" name="period-end" class="date-input" value="${data.end}" />
+          </div>
+          ${data.path || !(show('pages') || show('events')) ? '' : `<div class="filter-group">
+            ${show('pages') ? `<input type="text" name="filter" class="filter-input" placeholder="Filter paths" value="${escapeHtml(data.filter)}" />` : ''}
+            ${show('events') ? `<label class="events-toggle"><input type="checkbox" name="events" value="1"${data.includeEvents ? ' checked' : ''} /> Include events</label>` : ''}
+          </div>`}
+        </div>
+
+        <div class="controls-row">
+          <div class="period-links">
+            Last
+            <a href="?${scopeParam}&period=day" class="${data.period === 'day' ? 'active' : ''}">day</a> ·
+            <a href="?${scopeParam}&period=week" class="${data.period === 'week' ? 'active' : ''}">week</a> ·
+            <a href="?${scopeParam}&period=month" class="${data.period === 'month' ? 'active' : ''}">month</a> ·
+            <a href="?${scopeParam}&period=quarter" class="${data.period === 'quarter' ? 'active' : ''}">quarter</a> ·
+            <a href="?${scopeParam}&period=half-year" class="${data.period === 'half-year' ? 'active' : ''}">half year</a> ·
+            <a href="?${scopeParam}&period=year" class="${data.period === 'year' ? 'active' : ''}">year</a>
+          </div>
+          <div class="granularity-toggle">
+            View by:
+            <a href="?${scopeParam}&period-start=${data.start}&period-end=${data.end}&hl=hour" class="${data.granularity === 'hour' ? 'active' : ''}">hour</a> ·
+            <a href="?${scopeParam}&period-start=${data.start}&period-end=${data.end}&hl=day" class="${data.granularity === 'day' ? 'active' : ''}">day</a>
+          </div>
+          ${data.view.readOnly ? '' : `<div class="export-links">
+            Export:
+            <a href="/api/v0/export?${siteParam}&period-start=${data.start}&period-end=${data.end}&format=csv">CSV</a> ·
+            <a href="/api/v0/export?${siteParam}&period-start=${data.start}&period-end=${data.end}&format=ndjson">NDJSON</a>
+          </div>`}
+        </div>
+
+        <div class="controls-row nav-row">
+          <div class="period-nav">
+            <span class="nav-back">
+              ← back
+              <a href="#" data-nav="back-day">day</a> ·
+              <a href="#" data-nav="back-week">week</a> ·
+              <a href="#" data-nav="back-month">month</a> ·
+              <a href="#" data-nav="back-year">year</a>
+            </span>
+          </div>
+          <div class="period-current">${dateRange}</div>
+          <div class="period-nav">
+            <span class="nav-forward">
+              <a href="#" data-nav="forward-day">day</a> ·
+              <a href="#" data-nav="forward-week">week</a> ·
+              <a href="#" data-nav="forward-month">month</a> ·
+              <a href="#" data-nav="forward-year">year</a>
+              forward →
+            </span>
+          </div>
+        </div>
+      </section>
+    </form>
+
+    ${data.path ? renderPathDetail(data, data.path) : ''}
+
+    <section class="totals-section">
+      <div class="totals-header">
+        <h2 class="section-title">Totals</h2>
+        <div class="chart-controls">
+          <div class="chart-toggle">
+            <button type="button" class="toggle-btn active" data-chart-type="line">Line</button>
+            <button type="button" class="toggle-btn" data-chart-type="bar">Bar</button>
+          </div>
+        </div>
+      </div>
+      <div class="totals-stats">
+        ${renderTotalsStats(data)}
+      </div>
+      <div class="chart-container">
+        <canvas id="chart"></canvas>
+      </div>
+    </section>
+
+    ${data.path || !show('pages') ? '' : `<section class="pages-section">
+      <div class="section-header">
+        <h2 class="section-title">Pages</h2>
+        <span class="section-count">${data.pages.length} of ${data.totalPagesCount} shown</span>
+      </div>
+      <div class="pages-list" id="pages-list">
+        ${renderPagesContent(data, data.pages)}
+      </div>
+      ${data.hasMorePages ? `
+      <div class="show-more-container">
+        <button type="button" class="show-more-btn" id="show-more-pages">Show more</button>
+      </div>
+      ` : ''}
+    </section>`}
+
+    ${data.events ? renderEventsSection(data, data.events) : ''}
+
+    <section class="stats-grid">
+      ${data.path?.event ? renderStatsWidget('Properties', renderPropsContent(data.props)) : ''}
+      ${data.path && !data.path.event ? renderStatsWidget('Scroll depth', renderScrollDepthContent(data.scrollDepth)) : ''}
+      ${show('goals') ? renderStatsWidget('Goals', renderGoalsContent(data)) : ''}
+      ${show('funnels') ? renderStatsWidget('Funnels', renderFunnelsContent(data)) : ''}
+      ${data.path || !show('outbound') ? '' : renderStatsWidget('Outbound links', renderOutboundContent(data))}
+      ${show('entries') ? renderStatsWidget('Top entry pages', renderEntryExitContent(data, data.entryPages, 'entry')) : ''}
+      ${show('exits') ? renderStatsWidget('Top exit pages', renderEntryExitContent(data, data.exitPages, 'exit')) : ''}
+      ${show('time') ? renderStatsWidget('Time on page', renderTimeOnPageContent(data)) : ''}
+      ${show('vitals') ? renderStatsWidget('Performance', renderVitalsContent(data.vitals)) : ''}
+      ${show('errors') ? renderStatsWidget('JavaScript errors', renderErrorsContent(data)) : ''}
+      ${show('refs') ? renderStatsWidget('Top referrers', renderRefsContent(data.refs)) : ''}
+      ${show('browsers') ? renderStatsWidget('Browsers', renderBrowsersContent(data.browsers)) : ''}
+      ${show('systems') ? renderStatsWidget('Systems', renderSystemsContent(data.systems)) : ''}
+      ${show('locations') ? renderStatsWidget('Locations', renderLocationsContent(data.locations, data.regions)) : ''}
+      ${show('sizes') ? renderStatsWidget('Sizes', renderSizesContent(data.sizes)) : ''}
+      ${show('languages') ? renderStatsWidget('Languages', renderLanguagesContent(data.languages)) : ''}
+      ${show('campaigns') ? renderStatsWidget('Campaigns', renderCampaignsContent(data.campaigns)) : ''}
+    </section>
+
+    <section class="widgets-mobile">
+      ${data.path || !show('pages') ? '' : renderMobileWidget('Pages', data.pages.length, renderPagesContentMobile(data, data.pages))}
+      ${data.events ? renderMobileWidget('Events', data.events.events.length, renderPagesContentMobile(data, data.events.events)) : ''}
+      ${data.path?.event ? renderMobileWidget('Properties', data.props.length, renderPropsContent(data.props)) : ''}
+      ${data.path && !data.path.event ? renderMobileWidget('Scroll depth', data.scrollDepth.length, renderScrollDepthContent(data.scrollDepth)) : ''}
+      ${show('goals') ? renderMobileWidget('Goals', data.goals.length, renderGoalsContent(data)) : ''}
+      ${show('funnels') ? renderMobileWidget('Funnels', data.funnels.length, renderFunnelsContent(data)) : ''}
+      ${data.path || !show('outbound') ? '' : renderMobileWidget('Outbound links', data.outbound.length, renderOutboundContent(data))}
+      ${show('entries') ? renderMobileWidget('Entry pages', data.entryPages.length, renderEntryExitContent(data, data.entryPages, 'entry')) : ''}
+      ${show('exits') ? renderMobileWidget('Exit pages', data.exitPages.length, renderEntryExitContent(data, data.exitPages, 'exit')) : ''}
+      ${show('time') ? renderMobileWidget('Time on page', data.timeOnPage.length, renderTimeOnPageContent(data)) : ''}
+      ${show('vitals') ? renderMobileWidget('Performance', data.vitals.filter(v => v.count > 0).length, renderVitalsContent(data.vitals)) : ''}
+      ${show('errors') ? renderMobileWidget('JavaScript errors', data.errors.length, renderErrorsContent(data)) : ''}
+      ${show('refs') ? renderMobileWidget('Referrers', data.refs.length, renderRefsContent(data.refs)) : ''}
+      ${show('browsers') ? renderMobileWidget('Browsers', data.browsers.length, renderBrowsersContent(data.browsers)) : ''}
+      ${show('systems') ? renderMobileWidget('Systems', data.systems.length, renderSystemsContent(data.systems)) : ''}
+      ${show('locations') ? renderMobileWidget('Locations', data.locations.length, renderLocationsContent(data.locations, data.regions)) : ''}
+      ${show('sizes') ? renderMobileWidget('Sizes', data.sizes.length, renderSizesContent(data.sizes)) : ''}
+      ${show('languages') ? renderMobileWidget('Languages', data.languages.length, renderLanguagesContent(data.languages)) : ''}
+      ${show('campaigns') ? renderMobileWidget('Campaigns', data.campaigns.length, renderCampaignsContent(data.campaigns)) : ''}
+    </section>
+  </main>
+
+  <script>
+    window.dashboardData = {
+      chartData: ${JSON.stringify(data.timeSeries)},
+      pagesData: ${JSON.stringify(data.pages.map(p => ({ id: p.path_id, sparkline: p.sparkline })))},
+      start: "${data.start}",
+      end: "${data.end}",
+      granularity: "${data.granularity}"
+    };
+  </script>
+  <script src="/dashboard.js"></script>
+</body>
+</html>`;
+}
+
+/**
+ * Render the site switcher (only when there is more than one site)
+ */
+function renderSiteSwitcher(data: DashboardData): string {
+  if (data.sites.length < 2) {
+    return '';
+  }
+
+  const options = data.sites.map(site => `
+    <option value="${escapeHtml(site.code)}"${site.site_id === data.site.site_id ? ' selected' : ''}>${escapeHtml(site.name || site.code)}</option>
+  `).join('');
+
+  return `<form method="GET" action="/" class="site-switcher">
+    <select name="site" class="site-select" aria-label="Site">${options}</select>
+  </form>`;
+}
+
+/**
+ * Render the heading of the single page detail view
+ */
+function renderPathDetail(data: DashboardData, path: Path): string {
+  const backHref = `?site=${encodeURIComponent(data.site.code)}&period-start=${data.start}&period-end=${data.end}`;
+
+  return `<section class="path-detail">
+    <a href="${backHref}" class="path-detail-back">← All pages</a>
+    <h2 class="path-detail-path">
+      ${path.event ? '<span class="event-badge">E</span>' : ''}${escapeHtml(path.path)}
+      ${path.event && !/^https?:\/\//.test(path.path) ? '' : `<a href="${escapeHtml(pageUrl(data, path.path))}" target="_blank" rel="noopener" class="path-detail-link" title="Open page">↗</a>`}
+    </h2>
+    ${path.title ? `<span class="page-title">${escapeHtml(path.title)}</span>` : ''}
+  </section>`;
+}
+
+/**
+ * Render the header stats: pageviews, visitors and engagement
+ */
+function renderTotalsStats(data: DashboardData): string {
+  const e = data.engagement;
+  const stats: [string, string, number | null, boolean][] = [
+    [data.includeEvents ? 'Pageviews and events' : 'Pageviews', formatNumber(data.totalHits), data.totalHitsChange, false],
+    [data.path || data.filter ? 'Visits' : 'Visitors', formatNumber(data.totalVisitors), data.totalVisitorsChange, false],
+    ['Bounce rate', e.bounceRate === null ? '–' : `${e.bounceRate.toFixed(0)}%`, e.bounceRateChange, true],
+    ['Pages / session', e.pagesPerSession === null ? '–' : e.pagesPerSession.toFixed(1), e.pagesPerSessionChange, false],
+    ['Avg. duration', e.avgDuration === null ? '–' : formatDuration(e.avgDuration), e.avgDurationChange, false],
+  ];
+
+  return stats.map(([label, value, change, lowerIsBetter]) => `
+    <div class="totals-stat">
+      <span class="totals-stat-value">${value}${renderChangeBadge(change, lowerIsBetter)}</span>
+      <span class="totals-stat-label">${label}</span>
+    </div>
+  `).join('');
+}
+
+/**
+ * Render a percentage change badge (nothing without previous data)
+ */
+function renderChangeBadge(change: number | null, lowerIsBetter: boolean = false): string {
+  if (change === null) {
+    return '';
+  }
+  const good = lowerIsBetter ? change <= 0 : change >= 0;
+  return ` <span class="change-badge-sm ${good ? 'positive' : 'negative'}">${change >= 0 ? '+' : ''}${change}%</span>`;
+}
+
+/**
+ * Render stats widget
+ */
+function renderStatsWidget(title: string, content: string): string {
+  return `<div class="stats-widget">
+    <h3 class="widget-title">${title}</h3>
+    <div class="widget-body">
+      ${content}
+    </div>
+  </div>`;
+}
+
+/**
+ * Render a collapsible mobile widget
+ */
+function renderMobileWidget(title: string, count: number, content: string): string {
+  return `<details class="widget-details">
+    <summary>
+      <span class="widget-details-title">${title}</span>
+      <span class="widget-details-count">${count}</span>
+    </summary>
+    <div class="widget-details-content">
+      ${content}
+    </div>
+  </details>`;
+}
+
+/**
+ * Render pages content with sparklines (desktop)
+ */
+function renderPagesContent(data: DashboardData, pages: PageWithChange[]): string {
+  if (pages.length === 0) {
+    return '<div class="empty-state">No data yet</div>';
+  }
+
+  return pages.map(page => `
+    <div class="page-row" data-id="${page.path_id}" data-path="${escapeHtml(page.path)}" data-title="${escapeHtml(page.title || '')}">
+      <div class="page-stats">
+        <span class="page-count">${formatNumber(page.total)}</span>
+        ${page.change !== null ? `<span class="change-badge ${page.change >= 0 ? 'positive' : 'negative'}">${page.change >= 0 ? '+' : ''}${page.change}%</span>` : ''}
+      </div>
+      <div class="page-info">
+        ${detailLink(data, page, !!page.event, `
+          ${page.event ? '<span class="event-badge">E</span>' : ''}${escapeHtml(page.path)}
+        `, 'page-path')}
+        ${page.title ? `<span class="page-title">${escapeHtml(page.title)}</span>` : ''}
+      </div>
+      <div class="page-sparkline">
+        <canvas class="sparkline-canvas" data-values="${page.sparkline.join(',')}" width="200" height="30"></canvas>
+      </div>
+    </div>
+  `).join('');
+}
+
+/**
+ * Render the events section: totals, events per day and top events
+ */
+function renderEventsSection(data: DashboardData, events: EventStats): string {
+  return `<section class="pages-section events-section">
+      <div class="section-header">
+        <h2 class="section-title">Events</h2>
+        <span class="section-count">${events.events.length} of ${events.totalCount} shown</span>
+      </div>
+      <div class="totals-stats">
+        <div class="totals-stat">
+          <span class="totals-stat-value">${formatNumber(events.total)}${renderChangeBadge(events.totalChange)}</span>
+          <span class="totals-stat-label">Events</span>
+        </div>
+        <div class="totals-stat">
+          <span class="totals-stat-value">${formatNumber(events.unique)}${renderChangeBadge(events.uniqueChange)}</span>
+          <span class="totals-stat-label">Unique</span>
+        </div>
+      </div>
+      ${events.total > 0 ? `<div class="events-chart">
+        <canvas class="sparkline-canvas" data-values="${events.daily.join(',')}"></canvas>
+      </div>` : ''}
+      <div class="pages-list">
+        ${renderPagesContent(data, events.events)}
+      </div>
+    </section>`;
+}
+
+/**
+ * Render pages content for mobile (simplified, no sparklines)
+ */
+function renderPagesContentMobile(data: DashboardData, pages: PageWithChange[]): string {
+  if (pages.length === 0) {
+    return '<div class="empty-state">No data yet</div>';
+  }
+
+  return pages.map(page => `
+    <div class="widget-row">
+      <div class="widget-row-name">
+        ${page.event ? '<span class="event-badge">E</span>' : ''}
+        ${detailLink(data, page, !!page.event, `
+          ${escapeHtml(page.title || page.path)}
+        `)}
+      </div>
+      <div class="widget-row-stats">
+        <span class="widget-row-count">${formatNumber(page.total)}</span>
+        ${page.change !== null ? `<span class="change-badge-sm ${page.change >= 0 ? 'positive' : 'negative'}">${page.change >= 0 ? '+' : ''}${page.change}%</span>` : ''}
+      </div>
+    </div>
+  `).join('');
+}
+
+/**
+ * Render goals with conversions, conversion rate and change
+ */
+function renderGoalsContent(data: DashboardData): string {
+  if (data.goals.length === 0) {
+    return data.view.readOnly
+      ? '<div class="empty-state">No goals yet</div>'
+      : `<div class="empty-state">No goals yet. <a href="/goals?site=${encodeURIComponent(data.site.code)}">Add a goal</a></div>`;
+  }
+
+  return data.goals.map(goal => {
+    const percent = goal.rate ?? 0;
+    return `
+      <div class="stat-row">
+        <span class="stat-percent">${goal.rate === null ? '–' : `${goal.rate.toFixed(1)}%`}</span>
+        <div class="stat-bar"><div class="stat-bar-fill" style="width: ${percent}%"></div></div>
+        <span class="stat-name">${escapeHtml(goal.name)}</span>
+        <span class="stat-count">${formatNumber(goal.conversions)}${renderChangeBadge(goal.conversionsChange)}</span>
+      </div>
+    `;
+  }).join('');
+}
+
+/**
+ * Render funnels with a step chart and the sessions reaching each step
+ */
+function renderFunnelsContent(data: DashboardData): string {
+  if (data.funnels.length === 0) {
+    return data.view.readOnly
+      ? '<div class="empty-state">No funnels yet</div>'
+      : `<div class="empty-state">No funnels yet. <a href="/funnels?site=${encodeURIComponent(data.site.code)}">Add a funnel</a></div>`;
+  }
+
+  return data.funnels.map(funnel => `
+    <div class="funnel">
+      <div class="funnel-header">
+        <span class="funnel-name">${escapeHtml(funnel.name)}</span>
+        <span class="stat-detail">within ${funnel.window_minutes} min</span>
+      </div>
+      <canvas class="funnel-canvas" data-values="${funnel.steps.map(s => s.sessions).join(',')}"></canvas>
+      ${funnel.steps.map((step, i) => `
+        <div class="stat-row">
+          <span class="stat-percent">${step.rate.toFixed(0)}%</span>
+          <div class="stat-bar"><div class="stat-bar-fill" style="width: ${step.rate}%"></div></div>
+          <span class="stat-name">${i + 1}. ${escapeHtml(step.label)}${step.dropoff > 0 ? ` <span class="stat-detail">−${formatNumber(step.dropoff)} dropped off</span>` : ''}</span>
+          <span class="stat-count">${formatNumber(step.sessions)}</span>
+        </div>
+      `).join('')}
+    </div>
+  `).join('');
+}
+
+/**
+ * Render entry or exit pages with their share and rate
+ */
+function renderEntryExitContent(
+  data: DashboardData,
+  pages: DashboardData['entryPages'],
+  kind: 'entry' | 'exit'
+): string {
+  if (pages.length === 0) {
+    return '<div class="empty-state">No data yet</div>';
+  }
+
+  const total = pages.reduce((sum, p) => sum + p.count, 0);
+
+  return pages.map(page => {
+    const percent = total > 0 ? ((page.count / total) * 100) : 0;
+    return `
+      <div class="stat-row">
+        <span class="stat-percent">${percent.toFixed(0)}%</span>
+        <div class="stat-bar"><div class="stat-bar-fill" style="width: ${percent}%"></div></div>
+        <span class="stat-name" title="${escapeHtml(page.title || page.path)}">
+          ${detailLink(data, page, false, escapeHtml(page.path))}
+          <span class="stat-detail">${page.rate}% ${kind} rate</span>
+        </span>
+        <span class="stat-count">${formatNumber(page.count)}</span>
+      </div>
+    `;
+  }).join('');
+}
+
+/**
+ * Render the share of pageviews that scrolled at least to each threshold
+ */
+function renderScrollDepthContent(scrollDepth: DashboardData['scrollDepth']): string {
+  const total = scrollDepth.reduce((sum, s) => sum + s.count, 0);
+  if (total === 0) {
+    return '<div class="empty-state">No data yet</div>';
+  }
+
+  return [25, 50, 75, 100].map(depth => {
+    const reached = scrollDepth
+      .filter(s => s.depth >= depth)
+      .reduce((sum, s) => sum + s.count, 0);
+    const percent = (reached / total) * 100;
+    return `
+      <div class="stat-row">
+        <span class="stat-percent">${percent.toFixed(0)}%</span>
+        <div class="stat-bar"><div class="stat-bar-fill" style="width: ${percent}%"></div></div>
+        <span class="stat-name">Scrolled ${depth === 100 ? 'to the end' : `past ${depth}%`}</span>
+        <span class="stat-count">${formatNumber(reached)}</span>
+      </div>
+    `;
+  }).join('');
+}
+
+/**
+ * Render the p75 of each Core Web Vital with its rating; bars fill up to
+ * the "poor" threshold
+ */
+function renderVitalsContent(vitals: DashboardData['vitals']): string {
+  if (vitals.every(v => v.count === 0)) {
+    return '<div class="empty-state">No data yet</div>';
+  }
+
+  return vitals.map(vital => {
+    const definition = VITALS[vital.metric];
+    const percent = vital.p75 === null ? 0 : Math.min((vital.p75 / definition.poor) * 100, 100);
+    return `
+      <div class="stat-row">
+        <span class="stat-percent">${vital.metric.toUpperCase()}</span>
+        <div class="stat-bar"><div class="stat-bar-fill ${vital.rating ? `vital-${vital.rating}` : ''}" style="width: ${percent}%"></div></div>
+        <span class="stat-name" title="${definition.name}">
+          ${vital.rating ? VITAL_RATINGS[vital.rating] : 'No data'}
+          <span class="stat-detail">good ≤ ${formatVital(vital.metric, definition.good)}, poor > ${formatVital(vital.metric, definition.poor)} · ${formatNumber(vital.count)} loads</span>
+        </span>
+        <span class="stat-count ${vital.rating ? `vital-${vital.rating}` : ''}">${vital.p75 === null ? '–' : formatVital(vital.metric, vital.p75)}</span>
+      </div>
+    `;
+  }).join('');
+}
+
+/**
+ * Render JavaScript errors, each expandable to the pages throwing it
+ */
+function renderErrorsContent(data: DashboardData): string {
+  if (data.errors.length === 0) {
+    return '<div class="empty-state">No errors</div>';
+  }
+
+  const total = data.errors.reduce((sum, e) => sum + e.count, 0);
+
+  return data.errors.map(error => {
+    const percent = total > 0 ? ((error.count / total) * 100) : 0;
+    const browsers = error.browsers.map(b => b.name).join(', ');
+    const systems = error.systems.map(s => s.name).join(', ');
+    const pageRows = error.pages.map(page => {
+      const pagePercent = error.count > 0 ? Math.min((page.count / error.count) * 100, 100) : 0;
+      return `
+          <div class="stat-row">
+            <span class="stat-percent">${pagePercent.toFixed(0)}%</span>
+            <div class="stat-bar"><div class="stat-bar-fill" style="width: ${pagePercent}%"></div></div>
+            <span class="stat-name">${detailLink(data, page, false, escapeHtml(page.path))}</span>
+            <span class="stat-count">${formatNumber(page.count)}</span>
+          </div>
+        `;
+    }).join('');
+
+    return `
+      <details class="stat-group">
+        <summary class="stat-row">
+          <span class="stat-percent">${percent.toFixed(0)}%</span>
+          <div class="stat-bar"><div class="stat-bar-fill" style="width: ${percent}%"></div></div>
+          <span class="stat-name" title="${escapeHtml(error.message)}">
+            ${escapeHtml(error.message)}
+            <span class="stat-detail">${escapeHtml([error.source, browsers, systems].filter(Boolean).join(' · '))}</span>
+          </span>
+          <span class="stat-count">${formatNumber(error.count)}</span>
+        </summary>
+        <div class="stat-group-rows">
+          ${pageRows}
+        </div>
+      </details>
+    `;
+  }).join('');
+}
+
+/**
+ * Render median and average time on page; bars are relative to the longest median
+ */
+function renderTimeOnPageContent(data: DashboardData): string {
+  if (data.timeOnPage.length === 0) {
+    return '<div class="empty-state">No data yet</div>';
+  }
+
+  const longest = Math.max(...data.timeOnPage.map(p => p.median || 0));
+
+  return data.timeOnPage.map(page => {
+    const percent = longest > 0 ? (((page.median || 0) / longest) * 100) : 0;
+    return `
+      <div class="stat-row">
+        <span class="stat-percent stat-duration">${page.median !== null ? formatDuration(page.median / 1000) : '–'}</span>
+        <div class="stat-bar"><div class="stat-bar-fill" style="width: ${percent}%"></div></div>
+        <span class="stat-name" title="${escapeHtml(page.title || page.path)}">
+          ${detailLink(data, page, false, escapeHtml(page.path))}
+          ${page.average !== null ? `<span class="stat-detail">median · average ${formatDuration(page.average / 1000)}</span>` : ''}
+        </span>
+        <span class="stat-count" title="Pageviews with a reported time">${formatNumber(page.count)}</span>
+      </div>
+    `;
+  }).join('');
+}
+
+/**
+ * Render outbound link destinations, linking to each click event's detail view
+ */
+function renderOutboundContent(data: DashboardData): string {
+  if (data.outbound.length === 0) {
+    return '<div class="empty-state">No data yet</div>';
+  }
+
+  const total = data.outbound.reduce((sum, o) => sum + o.count, 0);
+
+  return data.outbound.map(link => {
+    const percent = total > 0 ? ((link.count / total) * 100) : 0;
+    return `
+      <div class="stat-row">
+        <span class="stat-percent">${percent.toFixed(0)}%</span>
+        <div class="stat-bar"><div class="stat-bar-fill" style="width: ${percent}%"></div></div>
+        <span class="stat-name" title="${escapeHtml(link.url)}">
+          ${detailLink(data, link, true, escapeHtml(link.url.replace(/^https?:\/\//, '')))}
+          ${link.title ? `<span class="stat-detail">${escapeHtml(link.title)}</span>` : ''}
+        </span>
+        <span class="stat-count">${formatNumber(link.count)}</span>
+      </div>
+    `;
+  }).join('');
+}
+
+/**
+ * Render referrers content
+ */
+function renderRefsContent(refs: DashboardData['refs']): string {
+  if (refs.length === 0) {
+    return '<div class="empty-state">No data yet</div>';
+  }
+
+  const total = refs.reduce((sum, r) => sum + r.total, 0);
+
+  return refs.map(ref => {
+    const displayRef = ref.ref || '(direct)';
+    const isUrl = ref.ref_scheme === 'h' && ref.ref;
+    const percent = total > 0 ? ((ref.total / total) * 100) : 0;
+    return `
+      <div class="stat-row">
+        <span class="stat-percent">${percent.toFixed(0)}%</span>
+        <div class="stat-bar"><div class="stat-bar-fill" style="width: ${percent}%"></div></div>
+        <span class="stat-name">
+          ${isUrl
+            ? `<a href="https://${escapeHtml(ref.ref)}" target="_blank" rel="noopener nofollow">${escapeHtml(displayRef)}</a>`
+            : escapeHtml(displayRef)}
+        </span>
+        <span class="stat-count">${formatNumber(ref.total)}</span>
+      </div>
+    `;
+  }).join('');
+}
+
+/**
+ * Render browsers content
+ */
+function renderBrowsersContent(browsers: DashboardData['browsers']): string {
+  if (browsers.length === 0) {
+    return '<div class="empty-state">No data yet</div>';
+  }
+
+  const total = browsers.reduce((sum, b) => sum + b.count, 0);
+
+  return browsers.map(browser => {
+    const name = browser.name || 'Unknown';
+    const percent = total > 0 ? ((browser.count / total) * 100) : 0;
+    return `
+      <div class="stat-row">
+        <span class="stat-percent">${percent.toFixed(0)}%</span>
+        <div class="stat-bar"><div class="stat-bar-fill" style="width: ${percent}%"></div></div>
+        <span class="stat-name">${escapeHtml(name)}</span>
+        <span class="stat-count">${formatNumber(browser.count)}</span>
+      </div>
+    `;
+  }).join('');
+}
+
+/**
+ * Render systems content
+ */
+function renderSystemsContent(systems: DashboardData['systems']): string {
+  if (systems.length === 0) {
+    return '<div class="empty-state">No data yet</div>';
+  }
+
+  const total = systems.reduce((sum, s) => sum + s.count, 0);
+
+  return systems.map(system => {
+    const name = system.name || 'Unknown';
+    const percent = total > 0 ? ((system.count / total) * 100) : 0;
+    return `
+      <div class="stat-row">
+        <span class="stat-percent">${percent.toFixed(0)}%</span>
+        <div class="stat-bar"><div class="stat-bar-fill" style="width: ${percent}%"></div></div>
+        <span class="stat-name">${escapeHtml(name)}</span>
+        <span class="stat-count">${formatNumber(system.count)}</span>
+      </div>
+    `;
+  }).join('');
+}
+
+/**
+ * Render locations content; countries with region data expand to their
+ * regions
+ */
+function renderLocationsContent(
+  locations: DashboardData['locations'],
+  regions: DashboardData['regions']
+): string {
+  if (locations.length === 0) {
+    return '<div class="empty-state">No data yet</div>';
+  }
+
+  const total = locations.reduce((sum, l) => sum + l.count, 0);
+
+  return locations.map(loc => {
+    const name = COUNTRY_NAMES[loc.location] || loc.location || 'Unknown';
+    const percent = total > 0 ? ((loc.count / total) * 100) : 0;
+    const row = `
+        <span class="stat-percent">${percent.toFixed(0)}%</span>
+        <div class="stat-bar"><div class="stat-bar-fill" style="width: ${percent}%"></div></div>
+        <span class="stat-name">${escapeHtml(name)}</span>
+        <span class="stat-count">${formatNumber(loc.count)}</span>
+    `;
+
+    const countryRegions = loc.location
+      ? regions.filter(region => region.region.startsWith(`${loc.location}-`))
+      : [];
+    if (countryRegions.length === 0) {
+      return `<div class="stat-row">${row}</div>`;
+    }
+
+    // Region percentages are relative to the country
+    const regionRows = countryRegions.map(region => {
+      const regionPercent = loc.count > 0 ? Math.min((region.count / loc.count) * 100, 100) : 0;
+      return `
+          <div class="stat-row">
+            <span class="stat-percent">${regionPercent.toFixed(0)}%</span>
+            <div class="stat-bar"><div class="stat-bar-fill" style="width: ${regionPercent}%"></div></div>
+            <span class="stat-name">${escapeHtml(region.name || region.region)}</span>
+            <span class="stat-count">${formatNumber(region.count)}</span>
+          </div>
+        `;
+    }).join('');
+
+    return `
+      <details class="stat-group">
+        <summary class="stat-row">${row}</summary>
+        <div class="stat-group-rows">
+          ${regionRows}
+        </div>
+      </details>
+    `;
+  }).join('');
+}
+
+/**
+ * Render event properties grouped by key, each expandable to its values
+ */
+function renderPropsContent(props: DashboardData['props']): string {
+  if (props.length === 0) {
+    return '<div class="empty-state">No properties</div>';
+  }
+
+  const keys = new Map<string, DashboardData['props']>();
+  for (const prop of props) {
+    keys.set(prop.key, [...(keys.get(prop.key) || []), prop]);
+  }
+
+  return Array.from(keys, ([key, values]) => {
+    const total = values.reduce((sum, v) => sum + v.count, 0);
+    const valueRows = values.map(prop => {
+      const percent = total > 0 ? ((prop.count / total) * 100) : 0;
+      return `
+          <div class="stat-row">
+            <span class="stat-percent">${percent.toFixed(0)}%</span>
+            <div class="stat-bar"><div class="stat-bar-fill" style="width: ${percent}%"></div></div>
+            <span class="stat-name">${escapeHtml(prop.value)}</span>
+            <span class="stat-count">${formatNumber(prop.count)}</span>
+          </div>
+        `;
+    }).join('');
+
+    return `
+      <details class="stat-group" open>
+        <summary class="stat-row">
+          <span class="stat-name">${escapeHtml(key)} <span class="stat-detail">${values.length} ${values.length === 1 ? 'value' : 'values'}</span></span>
+          <span class="stat-count">${formatNumber(total)}</span>
+        </summary>
+        <div class="stat-group-rows">
+          ${valueRows}
+        </div>
+      </details>
+    `;
+  }).join('');
+}
+
+/**
+ * Render screen sizes grouped by device class, each expandable to the
+ * raw widths
+ */
+function renderSizesContent(sizes: DashboardData['sizes']): string {
+  if (sizes.length === 0) {
+    return '<div class="empty-state">No data yet</div>';
+  }
+
+  const total = sizes.reduce((sum, s) => sum + s.count, 0);
+
+  // Sizes come sorted by count, so widths stay sorted within each class
+  const groups = DEVICE_CLASSES.map(deviceClass => ({
+    name: deviceClass.name,
+    count: 0,
+    widths: [] as DashboardData['sizes']
+  }));
+  for (const size of sizes) {
+    const group = groups[DEVICE_CLASSES.indexOf(getDeviceClass(size.width))];
+    group.count += size.count;
+    group.widths.push(size);
+  }
+
+  return groups
+    .filter(group => group.count > 0)
+    .sort((a, b) => b.count - a.count)
+    .map(group => {
+      const percent = total > 0 ? ((group.count / total) * 100) : 0;
+      const widths = group.widths.map(size => {
+        const widthPercent = total > 0 ? ((size.count / total) * 100) : 0;
+        return `
+          <div class="stat-row">
+            <span class="stat-percent">${widthPercent.toFixed(0)}%</span>
+            <div class="stat-bar"><div class="stat-bar-fill" style="width: ${widthPercent}%"></div></div>
+            <span class="stat-name">${size.width}px</span>
+            <span class="stat-count">${formatNumber(size.count)}</span>
+          </div>
+        `;
+      }).join('');
+
+      return `
+        <details class="stat-group">
+          <summary class="stat-row">
+            <span class="stat-percent">${percent.toFixed(0)}%</span>
+            <div class="stat-bar"><div class="stat-bar-fill" style="width: ${percent}%"></div></div>
+            <span class="stat-name">${group.name}</span>
+            <span class="stat-count">${formatNumber(group.count)}</span>
+          </summary>
+          <div class="stat-group-rows">
+            ${widths}
+          </div>
+        </details>
+      `;
+    }).join('');
+}
+
+/**
+ * Render languages content
+ */
+function renderLanguagesContent(languages: DashboardData['languages']): string {
+  if (languages.length === 0) {
+    return '<div class="empty-state">No data yet</div>';
+  }
+
+  const total = languages.reduce((sum, l) => sum + l.count, 0);
+
+  return languages.map(lang => {
+    const name = LANGUAGE_NAMES[lang.language] || lang.language;
+    const percent = total > 0 ? ((lang.count / total) * 100) : 0;
+    return `
+      <div class="stat-row">
+        <span class="stat-percent">${percent.toFixed(0)}%</span>
+        <div class="stat-bar"><div class="stat-bar-fill" style="width: ${percent}%"></div></div>
+        <span class="stat-name">${escapeHtml(name)}</span>
+        <span class="stat-count">${formatNumber(lang.count)}</span>
+      </div>
+    `;
+  }).join('');
+}
+
+/**
+ * Render campaigns content
+ */
+function renderCampaignsContent(campaigns: DashboardData['campaigns']): string {
+  if (campaigns.length === 0) {
+    return '<div class="empty-state">No data yet</div>';
+  }
+
+  const total = campaigns.reduce((sum, c) => sum + c.count, 0);
+
+  return campaigns.map(campaign => {
+    const name = campaign.campaign || '(no campaign)';
+    const detail = [campaign.source, campaign.medium].filter(Boolean).join(' / ');
+    const percent = total > 0 ? ((campaign.count / total) * 100) : 0;
+    return `
+      <div class="stat-row">
+        <span class="stat-percent">${percent.toFixed(0)}%</span>
+        <div class="stat-bar"><div class="stat-bar-fill" style="width: ${percent}%"></div></div>
+        <span class="stat-name">${escapeHtml(name)}${detail ? ` <span class="stat-detail">${escapeHtml(detail)}</span>` : ''}</span>
+        <span class="stat-count">${formatNumber(campaign.count)}</span>
+      </div>
+    `;
+  }).join('');
+}
+
+/**
+ * Link to the detail view of a page for the current period
+ */
+function detailHref(data: DashboardData, page: { path_id: number }): string {
+  return `?site=${encodeURIComponent(data.site.code)}&period-start=${data.start}&period-end=${data.end}&path_id=${page.path_id}`;
+}
+
+/**
+ * Link a label to the detail view of a page or event, or leave it plain
+ * when the view hides the list that detail view is reached through
+ */
+function detailLink(
+  data: DashboardData,
+  page: { path_id: number },
+  event: boolean,
+  label: string,
+  className?: string
+): string {
+  const classAttr = className ? ` class="${className}"` : '';
+  if (!showWidget(data.view, event ? 'events' : 'pages')) {
+    return `<span${classAttr}>${label}</span>`;
+  }
+  return `<a href="${detailHref(data, page)}"${classAttr}>${label}</a>`;
+}
+
+/**
+ * URL of a page on the tracked site (relative when the site has no host)
+ * Outbound link events already hold an absolute URL
+ */
+function pageUrl(data: DashboardData, path: string): string {
+  if (/^https?:\/\//.test(path)) return path;
+  return data.site.host ? `https://${data.site.host}${path}` : path;
+}
+
+/**
+ * Format a duration in seconds, e.g. "1m 20s"
+ */
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  if (total < 60) {
+    return `${total}s`;
+  }
+  if (total < 3600) {
+    return `${Math.floor(total / 60)}m ${total % 60}s`;
+  }
+  return `${Math.floor(total / 3600)}h ${Math.floor((total % 3600) / 60)}m`;
+}
+
+/**
+ * Format a Core Web Vital value, e.g. "2.5s", "180ms" or "0.05"
+ */
+function formatVital(metric: VitalMetric, value: number): string {
+  if (VITALS[metric].unit !== 'ms') {
+    return value.toFixed(2);
+  }
+  return value >= 1000 ? `${(value / 1000).toFixed(1)}s` : `${Math.round(value)}ms`;
+}
+
+/**
+ * Format date range for display
+ */
+function formatDateRange(start: string, end: string): string {
+  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+  try {
+    const startDate = new Date(start);
+    const endDate = new Date(end);
+
+    const startMonth = months[startDate.getMonth()];
+    const startDay = startDate.getDate();
+    const endMonth = months[endDate.getMonth()];
+    const endDay = endDate.getDate();
+    const year = endDate.getFullYear();
+
+    if (start === end) {
+      return `${startMonth} ${startDay}, ${year}`;
+    }
+
+    if (startDate.getMonth() === endDate.getMonth() && startDate.getFullYear() === endDate.getFullYear()) {
+      return `${startMonth} ${startDay}–${endDay}, ${year}`;
+    }
+
+    if (startDate.getFullYear() === endDate.getFullYear()) {
+      return `${startMonth} ${startDay} – ${endMonth} ${endDay}, ${year}`;
+    }
+
+    return `${startMonth} ${startDay}, ${startDate.getFullYear()} – ${endMonth} ${endDay}, ${year}`;
+  } catch {
+    return `${start} – ${end}`;
+  }
+}
@@ -9,14 +9,15 @@ import type { Path, Ref, Browser, System } from '../types';
  */
 export async function getOrCreatePath(
   db: D1Database,
+  siteId: number,
   path: string,
   title: string = '',
   isEvent: boolean = false
 ): Promise<number> {
   // Try to get existing
   const existing = await db
-    .prepare('SELECT path_id FROM paths WHERE path = ?')
-    .bind(path)
+    .prepare('SELECT path_id FROM paths WHERE site_id = ? AND path = ?')
+    .bind(siteId, path)
     .first<{ path_id: number }>();
 
   if (existing) {
@@ -32,13 +33,29 @@ export async function getOrCreatePath(
 
   // Insert new
   const result = await db
-    .prepare('INSERT INTO paths (path, title, event) VALUES (?, ?, ?) RETURNING path_id')
-    .bind(path, title, isEvent ? 1 : 0)
+    .prepare('INSERT INTO paths (site_id, path, title, event) VALUES (?, ?, ?, ?) RETURNING path_id')
+    .bind(siteId, path, title, isEvent ? 1 : 0)
     .first<{ path_id: number }>();
 
   return result!.path_id;
 }
 
+/**
+ * Get the path_id of an existing path, without creating it
+ */
+export async function getPathId(
+  db: D1Database,
+  siteId: number,
+  path: string
+): Promise<number | null> {
+  const existing = await db
+    .prepare('SELECT path_id FROM paths WHERE site_id = ? AND path = ?')
+    .bind(siteId, path)
+    .first<{ path_id: number }>();
+
+  return existing?.path_id ?? null;
+}
+
 /**
  * Get or create a referrer entry, returning the ref_id
  */
@@ -129,6 +146,64 @@ export async function getOrCreateSystem(
   return result!.system_id;
 }
 
+/**
+ * Get or create a campaign entry, returning the campaign_id
+ */
+export async function getOrCreateCampaign(
+  db: D1Database,
+  source: string,
+  medium: string,
+  campaign: string
+): Promise<number> {
+  // No campaign is id 1
+  if (!source && !medium && !campaign) return 1;
+
+  // Try to get existing
+  const existing = await db
+    .prepare('SELECT campaign_id FROM campaigns WHERE source = ? AND medium = ? AND campaign = ?')
+    .bind(source, medium, campaign)
+    .first<{ campaign_id: number }>();
+
+  if (existing) {
+    return existing.campaign_id;
+  }
+
+  // Insert new
+  const result = await db
+    .prepare('INSERT INTO campaigns (source, medium, campaign) VALUES (?, ?, ?) RETURNING campaign_id')
+    .bind(source, medium, campaign)
+    .first<{ campaign_id: number }>();
+
+  return result!.campaign_id;
+}
+
+/**
+ * Get or create an event property entry, returning the prop_id
+ */
+export async function getOrCreateProp(
+  db: D1Database,
+  key: string,
+  value: string
+): Promise<number> {
+  // Try to get existing
+  const existing = await db
+    .prepare('SELECT prop_id FROM props WHERE key = ? AND value = ?')
+    .bind(key, value)
+    .first<{ prop_id: number }>();
+
+  if (existing) {
+    return existing.prop_id;
+  }
+
+  // Insert new
+  const result = await db
+    .prepare('INSERT INTO props (key, value) VALUES (?, ?) RETURNING prop_id')
+    .bind(key, value)
+    .first<{ prop_id: number }>();
+
+  return result!.prop_id;
+}
+
 /**
  * Format a Date to ISO hour string for hit_counts
  * e.g., "2024-01-15T14:00:00Z"
@@ -153,10 +228,25 @@ export function getHourIndex(date: Date): number {
   return date.getUTCHours();
 }
 
+// Device classes by largest normalized screen width, smallest first
+export const DEVICE_CLASSES: { name: string; maxWidth: number }[] = [
+  { name: 'Phones', maxWidth: 400 },
+  { name: 'Large phones', maxWidth: 600 },
+  { name: 'Tablets', maxWidth: 1100 },
+  { name: 'Desktops', maxWidth: 1900 },
+  { name: 'Large desktops', maxWidth: Infinity },
+];
+
+/**
+ * Get the device class of a normalized screen width
+ */
+export function getDeviceClass(width: number): { name: string; maxWidth: number } {
+  return DEVICE_CLASSES.find(deviceClass => width <= deviceClass.maxWidth)!;
+}
+
 /**
- * Normalize screen width to bucket
- * CloudCounter uses these buckets: phone (<384), tablet (384-1024), desktop (>1024)
- * We'll just store the actual width and bucket in queries
+ * Normalize screen width for storage
+ * Widths are rounded to 100px; getDeviceClass groups them for display
  */
 export function normalizeWidth(width: number | null): number | null {
   if (width === null || width <= 0) return null;
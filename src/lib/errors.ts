@@ -0,0 +1,92 @@
+/**
+ * JavaScript errors
+ *
+ * count.js reports uncaught errors and unhandled rejections to /api/error.
+ * Errors are grouped by a fingerprint of the message, source file and stack
+ * signature, so the same bug on different pages and browsers is one error.
+ */
+
+// Limits on what a single report can carry
+export const MAX_ERROR_MESSAGE_LENGTH = 500;
+export const MAX_ERROR_SOURCE_LENGTH = 500;
+export const MAX_ERROR_STACK_FRAMES = 10;
+export const MAX_ERROR_STACK_LENGTH = 2000;
+
+/**
+ * Normalize an error message for display and grouping
+ * Browsers prefix uncaught errors inconsistently.
+ */
+export function normalizeErrorMessage(message: string): string {
+  return message
+    .replace(/^Uncaught\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_ERROR_MESSAGE_LENGTH);
+}
+
+/**
+ * Normalize a script URL, dropping cache-busting query strings
+ */
+export function normalizeErrorSource(source: string): string {
+  return source.replace(/[?#].*$/, '').slice(0, MAX_ERROR_SOURCE_LENGTH);
+}
+
+/**
+ * Normalize a stack signature: at most MAX_ERROR_STACK_FRAMES non-empty lines
+ */
+export function normalizeErrorStack(stack: string): string {
+  return stack
+    .split('\n')
+    .map(frame => frame.trim())
+    .filter(Boolean)
+    .slice(0, MAX_ERROR_STACK_FRAMES)
+    .join('\n')
+    .slice(0, MAX_ERROR_STACK_LENGTH);
+}
+
+/**
+ * Fingerprint a normalized error as a SHA-256 hex digest
+ * Numbers in the message are ignored, so "id 12 not found" and "id 13 not
+ * found" are the same error.
+ */
+export async function errorFingerprint(message: string, source: string, stack: string): Promise<string> {
+  const data = `${message.replace(/\d+/g, 'N')}|${source}|${stack}`;
+  const buffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(data));
+  return Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Get or create an error group, returning the error_id
+ */
+export async function getOrCreateError(
+  db: D1Database,
+  siteId: number,
+  message: string,
+  source: string,
+  stack: string
+): Promise<number> {
+  const fingerprint = await errorFingerprint(message, source, stack);
+
+  // Try to get existing
+  const existing = await db
+    .prepare('SELECT error_id FROM errors WHERE site_id = ? AND fingerprint = ?')
+    .bind(siteId, fingerprint)
+    .first<{ error_id: number }>();
+
+  if (existing) {
+    return existing.error_id;
+  }
+
+  // Insert new; a concurrent report may have created it in the meantime
+  const result = await db
+    .prepare(`
+      INSERT INTO errors (site_id, fingerprint, message, source, stack, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(site_id, fingerprint) DO UPDATE SET message = message
+      RETURNING error_id
+    `)
+    .bind(siteId, fingerprint, message, source, stack, new Date().toISOString())
+    .first<{ error_id: number }>();
+
+  return result!.error_id;
+}
@@ -0,0 +1,95 @@
+/**
+ * Funnel management
+ *
+ * A funnel is an ordered list of steps, each matching a path or an event
+ * like a goal does. Steps are entered one per line: a path, or an event
+ * name prefixed with "event:". Steps containing * or ? are patterns.
+ */
+
+import type { Funnel, FunnelStep } from '../types';
+import { normalizeGoalValue } from './goals';
+
+// Limits keep the funnel query within D1's bound parameter limit
+export const MIN_FUNNEL_STEPS = 2;
+export const MAX_FUNNEL_STEPS = 10;
+
+// Session hashes only last a day, so longer windows can't match
+export const MAX_FUNNEL_WINDOW_MINUTES = 24 * 60;
+
+const EVENT_PREFIX = 'event:';
+
+/**
+ * Parse steps entered one per line, or null if they don't make a funnel
+ */
+export function parseFunnelSteps(text: string): FunnelStep[] | null {
+  const steps = text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line): FunnelStep => {
+      const isEvent = line.toLowerCase().startsWith(EVENT_PREFIX);
+      const value = isEvent ? line.slice(EVENT_PREFIX.length).trim() : line;
+      const match = /[*?]/.test(value) ? 'pattern' : 'exact';
+      return {
+        kind: isEvent ? 'event' : 'path',
+        match_type: match,
+        value: normalizeGoalValue(value, match)
+      };
+    });
+
+  if (steps.length < MIN_FUNNEL_STEPS || steps.length > MAX_FUNNEL_STEPS) return null;
+  if (steps.some(step => step.value === '')) return null;
+  return steps;
+}
+
+/**
+ * Format a step the way it is entered
+ */
+export function formatFunnelStep(step: FunnelStep): string {
+  return step.kind === 'event' ? `${EVENT_PREFIX}${step.value.replace(/^\//, '')}` : step.value;
+}
+
+/**
+ * Get a site's funnels, oldest first
+ */
+export async function getFunnels(db: D1Database, siteId: number): Promise<Funnel[]> {
+  const result = await db.prepare(`
+    SELECT funnel_id, site_id, name, steps, window_minutes, created_at
+    FROM funnels
+    WHERE site_id = ?
+    ORDER BY funnel_id ASC
+  `).bind(siteId).all<Omit<Funnel, 'steps'> & { steps: string }>();
+
+  return (result.results || []).map(row => ({
+    ...row,
+    steps: JSON.parse(row.steps) as FunnelStep[]
+  }));
+}
+
+/**
+ * Create a funnel, returning the funnel_id
+ */
+export async function createFunnel(
+  db: D1Database,
+  siteId: number,
+  name: string,
+  steps: FunnelStep[],
+  windowMinutes: number
+): Promise<number> {
+  const result = await db
+    .prepare('INSERT INTO funnels (site_id, name, steps, window_minutes, created_at) VALUES (?, ?, ?, ?, ?) RETURNING funnel_id')
+    .bind(siteId, name, JSON.stringify(steps), windowMinutes, new Date().toISOString())
+    .first<{ funnel_id: number }>();
+
+  return result!.funnel_id;
+}
+
+/**
+ * Delete a funnel
+ */
+export async function deleteFunnel(db: D1Database, siteId: number, funnelId: number): Promise<void> {
+  await db
+    .prepare('DELETE FROM funnels WHERE funnel_id = ? AND site_id = ?')
+    .bind(funnelId, siteId)
+    .run();
+}
@@ -0,0 +1,89 @@
+/**
+ * Goal management
+ *
+ * A goal marks a path or an event as a conversion. Conversions are the
+ * sessions that reached a matching path or event, so goals also apply to
+ * hits recorded before the goal was created.
+ */
+
+import type { Goal, GoalKind, GoalMatch } from '../types';
+
+// Human-readable descriptions, in display order
+export const GOAL_KINDS: Record<GoalKind, string> = {
+  path: 'Page',
+  event: 'Event',
+};
+
+export const GOAL_MATCHES: Record<GoalMatch, string> = {
+  exact: 'Exactly',
+  pattern: 'Pattern',
+};
+
+/**
+ * Check if a string is a known goal kind
+ */
+export function isGoalKind(kind: string): kind is GoalKind {
+  return Object.hasOwn(GOAL_KINDS, kind);
+}
+
+/**
+ * Check if a string is a known match type
+ */
+export function isGoalMatch(match: string): match is GoalMatch {
+  return Object.hasOwn(GOAL_MATCHES, match);
+}
+
+/**
+ * Get a site's goals, oldest first
+ */
+export async function getGoals(db: D1Database, siteId: number): Promise<Goal[]> {
+  const result = await db.prepare(`
+    SELECT goal_id, site_id, name, kind, match_type, value, created_at
+    FROM goals
+    WHERE site_id = ?
+    ORDER BY goal_id ASC
+  `).bind(siteId).all<Goal>();
+
+  return result.results || [];
+}
+
+/**
+ * Create a goal, returning the goal_id
+ */
+export async function createGoal(
+  db: D1Database,
+  siteId: number,
+  name: string,
+  kind: GoalKind,
+  match: GoalMatch,
+  value: string
+): Promise<number> {
+  const result = await db
+    .prepare('INSERT INTO goals (site_id, name, kind, match_type, value, created_at) VALUES (?, ?, ?, ?, ?, ?) RETURNING goal_id')
+    .bind(siteId, name, kind, match, normalizeGoalValue(value, match), new Date().toISOString())
+    .first<{ goal_id: number }>();
+
+  return result!.goal_id;
+}
+
+/**
+ * Delete a goal
+ */
+export async function deleteGoal(db: D1Database, siteId: number, goalId: number): Promise<void> {
+  await db
+    .prepare('DELETE FROM goals WHERE goal_id = ? AND site_id = ?')
+    .bind(goalId, siteId)
+    .run();
+}
+
+/**
+ * Normalize a goal value the way hit paths are stored
+ * Paths and event names always get a leading /; patterns may start with a
+ * wildcard instead, and outbound link events are absolute URLs.
+ */
+export function normalizeGoalValue(value: string, match: GoalMatch): string {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed.startsWith('/') || /^https?:\/\//i.test(trimmed)) return trimmed;
+  if (match === 'pattern' && (trimmed.startsWith('*') || trimmed.startsWith('?'))) return trimmed;
+  return '/' + trimmed;
+}
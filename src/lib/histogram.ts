@@ -0,0 +1,70 @@
+/**
+ * Fixed-bucket histograms
+ *
+ * Distributions like time on page are stored per path and day as a JSON
+ * array with a count per bucket. Arrays with the same bounds add up across
+ * days and paths, and percentiles are estimated from the bucket counts
+ * without keeping every value.
+ */
+
+// Upper bounds of time on page buckets in milliseconds; the last bucket has none
+export const TIME_BUCKETS = [
+  1000, 2000, 3000, 5000, 7500, 10000, 15000, 20000, 30000, 45000,
+  60000, 90000, 120000, 180000, 300000, 600000, 1200000, 1800000
+];
+
+/**
+ * Create a histogram with every bucket empty
+ */
+export function emptyHistogram(bounds: number[]): number[] {
+  return new Array(bounds.length + 1).fill(0);
+}
+
+/**
+ * Get the index of the bucket a value falls into
+ * Bounds are exclusive unless inclusive is set, which puts a value equal
+ * to a bound in the bucket below it.
+ */
+export function bucketIndex(bounds: number[], value: number, inclusive: boolean = false): number {
+  const index = bounds.findIndex(bound => inclusive ? value <= bound : value < bound);
+  return index === -1 ? bounds.length : index;
+}
+
+/**
+ * Add a stored histogram (JSON) into another, ignoring malformed values
+ */
+export function addHistogram(counts: number[], json: string): void {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return;
+  }
+  if (!Array.isArray(parsed)) return;
+
+  for (let i = 0; i < counts.length && i < parsed.length; i++) {
+    counts[i] += typeof parsed[i] === 'number' ? parsed[i] : 0;
+  }
+}
+
+/**
+ * Estimate a percentile (0-100), interpolating linearly within the bucket
+ * Values in the last bucket report its lower bound; null when empty.
+ */
+export function percentile(bounds: number[], counts: number[], p: number): number | null {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return null;
+
+  const rank = (p / 100) * total;
+  let seen = 0;
+  for (let i = 0; i < counts.length; i++) {
+    if (counts[i] > 0 && seen + counts[i] >= rank) {
+      if (i === bounds.length) return bounds[bounds.length - 1];
+      const lower = i === 0 ? 0 : bounds[i - 1];
+      return lower + ((rank - seen) / counts[i]) * (bounds[i] - lower);
+    }
+    seen += counts[i];
+  }
+
+  return bounds[bounds.length - 1];
+}
@@ -0,0 +1,58 @@
+/**
+ * Shared HTML helpers for server-rendered pages
+ */
+
+/**
+ * Escape HTML special characters
+ */
+export function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+/**
+ * Format number with thousand separators
+ */
+export function formatNumber(n: number): string {
+  return n.toLocaleString('en-US');
+}
+
+/**
+ * Render an admin page (sites, settings, ...) in the dashboard layout
+ */
+export function renderAdminPage(title: string, content: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0, viewport-fit=cover">
+  <title>${escapeHtml(title)} - CloudCounter</title>
+  <link rel="stylesheet" href="/dashboard.css">
+</head>
+<body>
+  <header class="header">
+    <div class="header-inner">
+      <a href="/" class="logo">☁️ CloudCounter</a>
+      <nav class="header-nav">
+        <a href="/sites">Sites</a>
+        <a href="/goals">Goals</a>
+        <a href="/funnels">Funnels</a>
+        <a href="/sharing">Sharing</a>
+        <a href="/import">Import</a>
+        <a href="/tokens">API tokens</a>
+        <a href="/logout" class="logout-btn">Sign out</a>
+      </nav>
+    </div>
+  </header>
+
+  <main class="main admin">
+    <h2 class="section-title admin-title">${escapeHtml(title)}</h2>
+    ${content}
+  </main>
+</body>
+</html>`;
+}
@@ -0,0 +1,45 @@
+/**
+ * Custom event properties
+ *
+ * Events may carry a few key/value properties, sent by count.js as a JSON
+ * object in the `pr` parameter. Invalid pairs are dropped rather than
+ * rejecting the whole hit.
+ */
+
+// Limits on what a single event can carry
+export const MAX_PROPS = 10;
+export const MAX_PROPS_LENGTH = 1024;
+export const MAX_PROP_VALUE_LENGTH = 100;
+
+// Keys are short identifiers, like `plan` or `variant`
+const PROP_KEY_PATTERN = /^[a-zA-Z0-9_.-]{1,50}$/;
+
+/**
+ * Parse the `pr` parameter into at most MAX_PROPS key/value pairs
+ * Values may be strings, numbers or booleans; other values are skipped.
+ */
+export function parseProps(json: string | undefined): [string, string][] {
+  if (!json || json.length > MAX_PROPS_LENGTH) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return [];
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return [];
+
+  const props: [string, string][] = [];
+  for (const [key, raw] of Object.entries(parsed)) {
+    if (props.length >= MAX_PROPS) break;
+    if (!PROP_KEY_PATTERN.test(key)) continue;
+    if (typeof raw !== 'string' && typeof raw !== 'number' && typeof raw !== 'boolean') continue;
+
+    const value = String(raw).trim().slice(0, MAX_PROP_VALUE_LENGTH);
+    if (value) {
+      props.push([key, value]);
+    }
+  }
+
+  return props;
+}
@@ -66,6 +66,9 @@ const HOST_ALIASES: Record<string, string> = {
   'www.reddit.com': 'www.reddit.com',
 };
 
+// Longest stored utm_source, utm_medium or utm_campaign value
+const MAX_CAMPAIGN_PARAM_LENGTH = 200;
+
 // UTM and tracking parameters to remove
 const TRACKING_PARAMS = [
   'utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content',
@@ -241,22 +244,26 @@ function stripProtocol(ref: string): string {
 }
 
 /**
- * Extract UTM campaign parameters from a URL
+ * Extract UTM campaign parameters from a page's query string
  */
-export function extractCampaign(url: string): string | null {
-  try {
-    const parsed = new URL(url.startsWith('http') ? url : `https://${url}`);
-    const campaign = parsed.searchParams.get('utm_campaign');
-    const source = parsed.searchParams.get('utm_source');
-    const medium = parsed.searchParams.get('utm_medium');
-
-    if (campaign || source || medium) {
-      const parts = [campaign, source, medium].filter(Boolean);
-      return parts.join(' / ');
-    }
-  } catch {
-    // Ignore parsing errors
+export function extractCampaign(
+  query: string
+): { source: string; medium: string; campaign: string } | null {
+  const params = new URLSearchParams(query);
+  const source = cleanCampaignParam(params.get('utm_source'));
+  const medium = cleanCampaignParam(params.get('utm_medium'));
+  const campaign = cleanCampaignParam(params.get('utm_campaign'));
+
+  if (source || medium || campaign) {
+    return { source, medium, campaign };
   }
 
   return null;
 }
+
+/**
+ * Trim a UTM value and cap its length
+ */
+function cleanCampaignParam(value: string | null): string {
+  return (value || '').trim().slice(0, MAX_CAMPAIGN_PARAM_LENGTH);
+}
@@ -0,0 +1,68 @@
+/**
+ * Helpers for requests from the tracking script
+ */
+
+/**
+ * Get the client IP, used only for the session hash
+ */
+export function getClientIp(request: Request): string {
+  return request.headers.get('CF-Connecting-IP') ||
+         request.headers.get('X-Forwarded-For')?.split(',')[0] ||
+         '0.0.0.0';
+}
+
+/**
+ * Get the hostname of the page that sent the hit
+ * sendBeacon sets Origin; image requests only carry a Referer
+ */
+export function getPageHost(request: Request): string | null {
+  const source = request.headers.get('Origin') || request.headers.get('Referer');
+  if (!source || source === 'null') return null;
+
+  try {
+    return new URL(source).hostname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Clean and normalize a path
+ * Events for outbound links keep their absolute destination URL
+ */
+export function cleanPath(path: string, isEvent: boolean): string {
+  // Ensure path starts with /
+  if (!path.startsWith('/') && !(isEvent && /^https?:\/\//i.test(path))) {
+    path = '/' + path;
+  }
+
+  // Keep a hash route (data-spa="hash") out of the query string
+  const hashIndex = path.indexOf('#');
+  const hash = hashIndex === -1 ? '' : path.slice(hashIndex);
+  if (hashIndex !== -1) {
+    path = path.slice(0, hashIndex);
+  }
+
+  // Remove tracking parameters from query string
+  const queryIndex = path.indexOf('?');
+  if (queryIndex === -1) {
+    return path + hash;
+  }
+
+  const basePath = path.slice(0, queryIndex);
+  const query = path.slice(queryIndex + 1);
+
+  // Parse and filter query params
+  const params = new URLSearchParams(query);
+  const trackingParams = [
+    'utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content',
+    'fbclid', 'gclid', 'msclkid', 'ref', '_ga'
+  ];
+
+  for (const param of trackingParams) {
+    params.delete(param);
+  }
+
+  const cleanQuery = params.toString();
+  return (cleanQuery ? `${basePath}?${cleanQuery}` : basePath) + hash;
+}
@@ -5,6 +5,15 @@
  * 1. Deduplicate visitors (same session = same visitor)
  * 2. Track first visit vs return visit
  * 3. Track which paths a session has seen (for referrer attribution)
+ * 4. Count unique visitors per site and day
+ * 5. Track each session's latest page (for entry and exit pages)
+ *
+ * Events don't make a session count as a visitor and don't change its
+ * latest page.
+ *
+ * Session hashes are salted with a random value that changes every UTC
+ * day. The previous day's salt is deleted when the new one is created,
+ * so stored hashes can't be linked across days or traced back to an IP.
  */
 
 import type { SessionData } from '../types';
@@ -12,18 +21,59 @@ import type { SessionData } from '../types';
 // Session TTL: 8 hours in seconds
 const SESSION_TTL = 8 * 60 * 60;
 
+// Hits further apart than this start a new visit for engagement metrics
+export const SESSION_GAP_SECONDS = 30 * 60;
+
+// Salt for the current day, cached per isolate
+let cachedSalt: { day: string; salt: string } | null = null;
+
+/**
+ * Get today's salt and its day, creating it (and deleting older salts) on
+ * the first request of the day
+ *
+ * The day is taken from the clock on every call rather than passed in, so
+ * a request that started before midnight can't recreate yesterday's salt
+ * after another isolate has deleted it.
+ */
+export async function getDailySalt(db: D1Database): Promise<{ day: string; salt: string }> {
+  const day = new Date().toISOString().slice(0, 10);
+  if (cachedSalt && cachedSalt.day === day) {
+    return cachedSalt;
+  }
+
+  // INSERT OR IGNORE keeps the first salt when isolates race at midnight
+  const results = await db.batch<{ salt: string }>([
+    db.prepare('INSERT OR IGNORE INTO session_salts (day, salt, created_at) VALUES (?, ?, ?)')
+      .bind(day, generateSalt(), new Date().toISOString()),
+    db.prepare('DELETE FROM session_salts WHERE day < ?').bind(day),
+    db.prepare('SELECT salt FROM session_salts WHERE day = ?').bind(day),
+  ]);
+
+  cachedSalt = { day, salt: results[2].results[0].salt };
+  return cachedSalt;
+}
+
 /**
- * Generate a session hash from IP and User-Agent
+ * Generate a session hash from the daily salt, IP and User-Agent
  * This is non-identifying: we hash the values and don't store originals
  */
-export async function generateSessionHash(ip: string, userAgent: string): Promise<string> {
-  const data = `${ip}|${userAgent}`;
+export async function generateSessionHash(salt: string, ip: string, userAgent: string): Promise<string> {
+  const data = `${salt}|${ip}|${userAgent}`;
   const encoder = new TextEncoder();
   const buffer = await crypto.subtle.digest('SHA-256', encoder.encode(data));
   const hashArray = Array.from(new Uint8Array(buffer));
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
+/**
+ * Generate a random salt
+ */
+function generateSalt(): string {
+  const array = new Uint8Array(32);
+  crypto.getRandomValues(array);
+  return Array.from(array).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
 /**
  * Generate a random session ID (UUID v4 style)
  */
@@ -42,18 +92,34 @@ function generateSessionId(): string {
  * Get or create a session, returning session info
  *
  * @param kv - KV namespace for sessions
+ * @param salt - Salt for the day of the hit
  * @param ip - Client IP address
  * @param userAgent - User-Agent header
+ * @param siteId - The site being visited
  * @param pathId - The path being visited
- * @returns Session ID and whether this is a first visit for this path
+ * @param day - The day of the hit (YYYY-MM-DD)
+ * @param isEvent - Whether the hit is an event rather than a pageview
+ * @returns Session ID, whether this is a first visit for this path,
+ *   whether it is the session's first pageview on this site today and
+ *   the path of its previous pageview today
  */
 export async function getOrCreateSession(
   kv: KVNamespace,
+  salt: string,
   ip: string,
   userAgent: string,
-  pathId: number
-): Promise<{ sessionId: string; firstVisit: boolean; sessionHash: string }> {
-  const sessionHash = await generateSessionHash(ip, userAgent);
+  siteId: number,
+  pathId: number,
+  day: string,
+  isEvent: boolean = false
+): Promise<{
+  sessionId: string;
+  firstVisit: boolean;
+  firstHit: boolean;
+  previousPathId: number | null;
+  sessionHash: string;
+}> {
+  const sessionHash = await generateSessionHash(salt, ip, userAgent);
   const key = `session:${sessionHash}`;
 
   // Try to get existing session
@@ -63,15 +129,36 @@ export async function getOrCreateSession(
     // Check if this path has been seen in this session
     const firstVisit = !existing.pathsSeen.includes(pathId);
 
+    // Check if the session was already counted as a visitor today
+    // (sessions created before visitor counting have no visitorDays)
+    const visitorDays = existing.visitorDays || {};
+    const firstHit = !isEvent && visitorDays[siteId] !== day;
+
+    // The previous page only counts if it was seen today
+    const lastPaths = existing.lastPaths || {};
+    const previousPathId = visitorDays[siteId] !== day ? null : (lastPaths[siteId] ?? null);
+
     if (firstVisit) {
-      // Add path to seen list and update
+      // Add path to seen list
       existing.pathsSeen.push(pathId);
+    }
+    if (firstHit) {
+      visitorDays[siteId] = day;
+      existing.visitorDays = visitorDays;
+    }
+    if (!isEvent && previousPathId !== pathId) {
+      lastPaths[siteId] = pathId;
+      existing.lastPaths = lastPaths;
+    }
+    if (firstVisit || firstHit || (!isEvent && previousPathId !== pathId)) {
       await kv.put(key, JSON.stringify(existing), { expirationTtl: SESSION_TTL });
     }
 
     return {
       sessionId: existing.id,
       firstVisit,
+      firstHit,
+      previousPathId,
       sessionHash
     };
   }
@@ -80,6 +167,8 @@ export async function getOrCreateSession(
   const newSession: SessionData = {
     id: generateSessionId(),
     pathsSeen: [pathId],
+    visitorDays: isEvent ? {} : { [siteId]: day },
+    lastPaths: isEvent ? {} : { [siteId]: pathId },
     createdAt: Date.now()
   };
 
@@ -88,6 +177,8 @@ export async function getOrCreateSession(
   return {
     sessionId: newSession.id,
     firstVisit: true,
+    firstHit: !isEvent,
+    previousPathId: null,
     sessionHash
   };
 }
@@ -97,10 +188,11 @@ export async function getOrCreateSession(
  */
 export async function sessionExists(
   kv: KVNamespace,
+  salt: string,
   ip: string,
   userAgent: string
 ): Promise<boolean> {
-  const sessionHash = await generateSessionHash(ip, userAgent);
+  const sessionHash = await generateSessionHash(salt, ip, userAgent);
   const key = `session:${sessionHash}`;
   const existing = await kv.get(key);
   return existing !== null;
@@ -0,0 +1,136 @@
+/**
+ * Share links
+ *
+ * A share link opens a site's dashboard read-only at /share/<token>,
+ * optionally only until an expiry date and with only some widgets. Like
+ * API tokens, only a hash is stored and the link is shown once on creation.
+ */
+
+import type { DashboardWidget, Share, Site } from '../types';
+import { generateSecret, hashToken } from './tokens';
+
+// Human-readable widget names, in dashboard order
+export const DASHBOARD_WIDGETS: Record<DashboardWidget, string> = {
+  pages: 'Pages',
+  events: 'Events',
+  goals: 'Goals',
+  funnels: 'Funnels',
+  outbound: 'Outbound links',
+  entries: 'Entry pages',
+  exits: 'Exit pages',
+  time: 'Time on page',
+  vitals: 'Performance',
+  errors: 'JavaScript errors',
+  refs: 'Referrers',
+  browsers: 'Browsers',
+  systems: 'Systems',
+  locations: 'Locations',
+  sizes: 'Sizes',
+  languages: 'Languages',
+  campaigns: 'Campaigns',
+};
+
+// Site codes can't contain an underscore, so share tokens never clash with them
+const SHARE_PREFIX = 'sh_';
+
+// Number of leading characters kept to identify a link in the list
+const DISPLAY_PREFIX_LENGTH = 10;
+
+/**
+ * Check if a string is a known widget
+ */
+export function isDashboardWidget(widget: string): widget is DashboardWidget {
+  return Object.hasOwn(DASHBOARD_WIDGETS, widget);
+}
+
+/**
+ * Check if a /share/ URL segment is a share token rather than a site code
+ */
+export function isShareToken(value: string): boolean {
+  return value.startsWith(SHARE_PREFIX);
+}
+
+/**
+ * Create a share link, returning the plaintext token (shown once)
+ * An empty widget list shares all widgets
+ */
+export async function createShare(
+  db: D1Database,
+  siteId: number,
+  name: string,
+  widgets: DashboardWidget[],
+  expiresAt: string | null
+): Promise<string> {
+  const token = SHARE_PREFIX + generateSecret();
+  const tokenHash = await hashToken(token);
+
+  await db
+    .prepare('INSERT INTO shares (site_id, name, token_hash, prefix, widgets, expires_at, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)')
+    .bind(siteId, name, tokenHash, token.slice(0, DISPLAY_PREFIX_LENGTH), widgets.join(','), expiresAt, new Date().toISOString())
+    .run();
+
+  return token;
+}
+
+/**
+ * Get a site's share links, newest first
+ */
+export async function getShares(db: D1Database, siteId: number): Promise<Share[]> {
+  const result = await db.prepare(`
+    SELECT share_id, site_id, name, prefix, widgets, expires_at, created_at
+    FROM shares
+    WHERE site_id = ?
+    ORDER BY share_id DESC
+  `).bind(siteId).all<Omit<Share, 'widgets'> & { widgets: string }>();
+
+  return (result.results || []).map(row => ({
+    ...row,
+    widgets: parseWidgets(row.widgets)
+  }));
+}
+
+/**
+ * Delete a share link
+ */
+export async function deleteShare(db: D1Database, siteId: number, shareId: number): Promise<void> {
+  await db
+    .prepare('DELETE FROM shares WHERE share_id = ? AND site_id = ?')
+    .bind(shareId, siteId)
+    .run();
+}
+
+/**
+ * Look up a presented share token
+ * Returns the shared site and widgets, or null if the link is unknown or expired
+ */
+export async function resolveShare(
+  db: D1Database,
+  token: string
+): Promise<{ site: Site; widgets: DashboardWidget[] } | null> {
+  if (!isShareToken(token)) return null;
+
+  const tokenHash = await hashToken(token);
+  const row = await db
+    .prepare(`
+      SELECT s.site_id, s.code, s.host, s.name, s.collect_regions, s.public, s.created_at,
+             sh.widgets AS share_widgets
+      FROM shares sh
+      JOIN sites s ON s.site_id = sh.site_id
+      WHERE sh.token_hash = ?
+        AND (sh.expires_at IS NULL OR sh.expires_at > ?)
+    `)
+    .bind(tokenHash, new Date().toISOString())
+    .first<Site & { share_widgets: string }>();
+
+  if (!row) return null;
+
+  const { share_widgets, ...site } = row;
+  return { site, widgets: parseWidgets(share_widgets) };
+}
+
+/**
+ * Parse the comma-separated widgets column
+ */
+function parseWidgets(value: string): DashboardWidget[] {
+  return value.split(',').filter(isDashboardWidget);
+}
@@ -0,0 +1,141 @@
+/**
+ * Site lookup and management
+ *
+ * One deployment can track many sites. Hits are attributed to a site by
+ * the data-site code on count.js, or else by the page's hostname.
+ */
+
+import type { Site } from '../types';
+
+// Site codes appear in URLs and script tags, so keep them simple
+const SITE_CODE_PATTERN = /^[a-z0-9][a-z0-9-]{0,49}$/;
+
+/**
+ * Get all sites, oldest first
+ */
+export async function getSites(db: D1Database): Promise<Site[]> {
+  const result = await db.prepare(`
+    SELECT site_id, code, host, name, collect_regions, public, created_at
+    FROM sites
+    ORDER BY site_id ASC
+  `).all<Site>();
+
+  return result.results || [];
+}
+
+/**
+ * Pick the site selected by a `site` query parameter (code or id),
+ * falling back to the first site
+ */
+export function selectSite(sites: Site[], param: string | null): Site | null {
+  if (param) {
+    const match = sites.find(s => s.code === param || String(s.site_id) === param);
+    if (match) return match;
+  }
+  return sites[0] || null;
+}
+
+/**
+ * Resolve the site a hit belongs to
+ *
+ * Tries the explicit site code first, then the page hostname. Sites with
+ * an empty host act as a catch-all for hits no other site claims.
+ */
+export async function resolveSite(
+  db: D1Database,
+  code: string | null,
+  host: string | null
+): Promise<Site | null> {
+  if (code) {
+    const byCode = await db
+      .prepare('SELECT * FROM sites WHERE code = ?')
+      .bind(code)
+      .first<Site>();
+    if (byCode) return byCode;
+  }
+
+  const normalized = host ? normalizeHost(host) : '';
+  if (normalized) {
+    const byHost = await db
+      .prepare('SELECT * FROM sites WHERE host = ? ORDER BY site_id LIMIT 1')
+      .bind(normalized)
+      .first<Site>();
+    if (byHost) return byHost;
+  }
+
+  return db
+    .prepare(`SELECT * FROM sites WHERE host = '' ORDER BY site_id LIMIT 1`)
+    .first<Site>();
+}
+
+/**
+ * Create a new site, returning the site_id
+ */
+export async function createSite(
+  db: D1Database,
+  code: string,
+  name: string,
+  host: string
+): Promise<number> {
+  const result = await db
+    .prepare('INSERT INTO sites (code, host, name, created_at) VALUES (?, ?, ?, ?) RETURNING site_id')
+    .bind(code, normalizeHost(host), name, new Date().toISOString())
+    .first<{ site_id: number }>();
+
+  return result!.site_id;
+}
+
+/**
+ * Update a site's name, host and settings
+ */
+export async function updateSite(
+  db: D1Database,
+  siteId: number,
+  name: string,
+  host: string,
+  collectRegions: boolean
+): Promise<void> {
+  await db
+    .prepare('UPDATE sites SET name = ?, host = ?, collect_regions = ? WHERE site_id = ?')
+    .bind(name, normalizeHost(host), collectRegions ? 1 : 0, siteId)
+    .run();
+}
+
+/**
+ * Turn a site's public dashboard on or off
+ */
+export async function setSitePublic(db: D1Database, siteId: number, isPublic: boolean): Promise<void> {
+  await db
+    .prepare('UPDATE sites SET public = ? WHERE site_id = ?')
+    .bind(isPublic ? 1 : 0, siteId)
+    .run();
+}
+
+/**
+ * Check that a site code is usable in URLs and script attributes
+ */
+export function isValidSiteCode(code: string): boolean {
+  return SITE_CODE_PATTERN.test(code);
+}
+
+/**
+ * Normalize a hostname for matching
+ * Accepts bare hosts or full URLs; strips port and leading www.
+ */
+export function normalizeHost(host: string): string {
+  let value = host.trim().toLowerCase();
+  if (!value) return '';
+
+  if (value.includes('://')) {
+    try {
+      value = new URL(value).hostname;
+    } catch {
+      return '';
+    }
+  }
+
+  return value
+    .replace(/\/.*$/, '')
+    .replace(/:\d+$/, '')
+    .replace(/^www\./, '');
+}
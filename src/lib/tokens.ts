@@ -0,0 +1,120 @@
+/**
+ * API tokens
+ *
+ * Tokens let scripts call the API without the dashboard password.
+ * Only a SHA-256 hash is stored; the token is shown once on creation.
+ */
+
+import type { ApiToken, TokenScope } from '../types';
+
+// Human-readable scope descriptions, in display order
+export const TOKEN_SCOPES: Record<TokenScope, string> = {
+  stats: 'Read stats',
+  export: 'Export data',
+  settings: 'Manage settings',
+};
+
+// Prefix makes tokens recognisable in config files and secret scanners
+const TOKEN_PREFIX = 'cc_';
+
+// Number of leading characters kept to identify a token in the list
+const DISPLAY_PREFIX_LENGTH = 10;
+
+/**
+ * Check if a string is a known scope
+ */
+export function isTokenScope(scope: string): scope is TokenScope {
+  return Object.hasOwn(TOKEN_SCOPES, scope);
+}
+
+/**
+ * Create a token, returning the plaintext value (shown once)
+ */
+export async function createApiToken(
+  db: D1Database,
+  name: string,
+  scopes: TokenScope[]
+): Promise<string> {
+  const token = TOKEN_PREFIX + generateSecret();
+  const tokenHash = await hashToken(token);
+
+  await db
+    .prepare('INSERT INTO api_tokens (name, token_hash, prefix, scopes, created_at) VALUES (?, ?, ?, ?, ?)')
+    .bind(name, tokenHash, token.slice(0, DISPLAY_PREFIX_LENGTH), scopes.join(','), new Date().toISOString())
+    .run();
+
+  return token;
+}
+
+/**
+ * List all tokens, newest first
+ */
+export async function getApiTokens(db: D1Database): Promise<ApiToken[]> {
+  const result = await db.prepare(`
+    SELECT token_id, name, prefix, scopes, created_at, last_used_at
+    FROM api_tokens
+    ORDER BY token_id DESC
+  `).all<Omit<ApiToken, 'scopes'> & { scopes: string }>();
+
+  return (result.results || []).map(row => ({
+    ...row,
+    scopes: parseScopes(row.scopes)
+  }));
+}
+
+/**
+ * Revoke (delete) a token
+ */
+export async function revokeApiToken(db: D1Database, tokenId: number): Promise<void> {
+  await db
+    .prepare('DELETE FROM api_tokens WHERE token_id = ?')
+    .bind(tokenId)
+    .run();
+}
+
+/**
+ * Look up a presented token and record its use
+ * Returns the token's scopes, or null if the token is unknown
+ */
+export async function validateApiToken(
+  db: D1Database,
+  token: string
+): Promise<TokenScope[] | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+  const tokenHash = await hashToken(token);
+  const row = await db
+    .prepare(`
+      UPDATE api_tokens SET last_used_at = ?
+      WHERE token_hash = ?
+      RETURNING scopes
+    `)
+    .bind(new Date().toISOString(), tokenHash)
+    .first<{ scopes: string }>();
+
+  return row ? parseScopes(row.scopes) : null;
+}
+
+/**
+ * Parse the comma-separated scopes column
+ */
+function parseScopes(value: string): TokenScope[] {
+  return value.split(',').filter(isTokenScope);
+}
+
+/**
+ * Hash a token for storage and lookup
+ */
+export async function hashToken(token: string): Promise<string> {
+  const buffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Generate a random token secret
+ */
+export function generateSecret(): string {
+  const array = new Uint8Array(20);
+  crypto.getRandomValues(array);
+  return Array.from(array).map(b => b.toString(16).padStart(2, '0')).join('');
+}
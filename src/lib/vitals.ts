@@ -0,0 +1,81 @@
+/**
+ * Core Web Vitals
+ *
+ * count.js measures LCP, INP, CLS and TTFB on page load and sends them with
+ * the exit beacon. Values are stored as histograms per path and day, with
+ * bucket bounds on Google's thresholds so the rating of a percentile is exact.
+ * Like the thresholds, the bounds are inclusive upper edges.
+ */
+
+import type { VitalMetric, VitalRating } from '../types';
+
+export interface VitalDefinition {
+  name: string;
+  unit: 'ms' | '';
+  good: number;    // at most this is good
+  poor: number;    // above this is poor
+  max: number;     // larger values are rejected as bogus
+  buckets: number[];
+}
+
+export const VITALS: Record<VitalMetric, VitalDefinition> = {
+  lcp: {
+    name: 'Largest Contentful Paint',
+    unit: 'ms',
+    good: 2500,
+    poor: 4000,
+    max: 120000,
+    buckets: [500, 1000, 1500, 2000, 2500, 3000, 3500, 4000, 5000, 6000, 8000, 10000, 15000, 20000]
+  },
+  inp: {
+    name: 'Interaction to Next Paint',
+    unit: 'ms',
+    good: 200,
+    poor: 500,
+    max: 60000,
+    buckets: [50, 100, 150, 200, 250, 300, 400, 500, 750, 1000, 1500, 2000, 3000, 5000]
+  },
+  cls: {
+    name: 'Cumulative Layout Shift',
+    unit: '',
+    good: 0.1,
+    poor: 0.25,
+    max: 100,
+    buckets: [0.025, 0.05, 0.075, 0.1, 0.15, 0.2, 0.25, 0.3, 0.4, 0.5, 0.75, 1, 1.5, 2]
+  },
+  ttfb: {
+    name: 'Time to First Byte',
+    unit: 'ms',
+    good: 800,
+    poor: 1800,
+    max: 120000,
+    buckets: [100, 200, 300, 400, 500, 600, 800, 1000, 1200, 1500, 1800, 2500, 3500, 5000]
+  }
+};
+
+/**
+ * Check if a string is a known metric
+ */
+export function isVitalMetric(value: string): value is VitalMetric {
+  return Object.hasOwn(VITALS, value);
+}
+
+/**
+ * Rate a value against the metric's thresholds
+ */
+export function rateVital(metric: VitalMetric, value: number): VitalRating {
+  const { good, poor } = VITALS[metric];
+  if (value <= good) return 'good';
+  if (value <= poor) return 'needs-improvement';
+  return 'poor';
+}
+
+/**
+ * Parse a reported value, null when missing or out of range
+ */
+export function parseVital(metric: VitalMetric, value: string | undefined): number | null {
+  if (!value) return null;
+  const parsed = parseFloat(value);
+  if (!isFinite(parsed) || parsed < 0 || parsed > VITALS[metric].max) return null;
+  return VITALS[metric].unit === 'ms' ? Math.round(parsed) : parsed;
+}
@@ -0,0 +1,153 @@
+/**
+ * Raw hit export
+ *
+ * Reads hits with their dimensions joined in, one page at a time, so
+ * exports of large tables can be streamed without buffering them.
+ */
+
+// Bumped whenever the exported columns change
+export const EXPORT_FORMAT_VERSION = 2;
+
+// Rows fetched per query
+export const EXPORT_PAGE_SIZE = 1000;
+
+export interface ExportRow {
+  hit_id: number;
+  created_at: string;
+  path: string;
+  title: string;
+  event: number;
+  ref: string;
+  ref_scheme: string;
+  browser: string;
+  browser_version: string;
+  system: string;
+  system_version: string;
+  session: string | null;
+  first_visit: number;
+  first_hit: number;
+  width: number | null;
+  location: string;
+  language: string | null;
+  engaged_ms: number;
+  scroll_depth: number | null;
+}
+
+// Position of the last exported row; pages continue after it
+export interface ExportCursor {
+  created_at: string;
+  hit_id: number;
+}
+
+// Column order for CSV output, after the format version column
+const EXPORT_COLUMNS: (keyof ExportRow)[] = [
+  'hit_id',
+  'created_at',
+  'path',
+  'title',
+  'event',
+  'ref',
+  'ref_scheme',
+  'browser',
+  'browser_version',
+  'system',
+  'system_version',
+  'session',
+  'first_visit',
+  'first_hit',
+  'width',
+  'location',
+  'language',
+  'engaged_ms',
+  'scroll_depth',
+];
+
+/**
+ * Get one page of hits after the cursor, or from the start without one
+ * Pages follow idx_hits_site_created_at_hit, so each query reads only its
+ * own rows instead of the whole range.
+ */
+export async function getExportPage(
+  db: D1Database,
+  siteId: number,
+  start: string,
+  end: string,
+  after: ExportCursor | null,
+  limit: number = EXPORT_PAGE_SIZE
+): Promise<ExportRow[]> {
+  const cursor = after ? '(h.created_at, h.hit_id) > (?, ?)' : 'h.created_at >= ?';
+  const cursorParams = after ? [after.created_at, after.hit_id] : [start];
+
+  const result = await db.prepare(`
+    SELECT
+      h.hit_id,
+      h.created_at,
+      p.path,
+      p.title,
+      p.event,
+      r.ref,
+      r.ref_scheme,
+      b.name as browser,
+      b.version as browser_version,
+      s.name as system,
+      s.version as system_version,
+      h.session,
+      h.first_visit,
+      h.first_hit,
+      h.width,
+      h.location,
+      h.language,
+      h.engaged_ms,
+      h.scroll_depth
+    FROM hits h
+    JOIN paths p ON h.path_id = p.path_id
+    JOIN refs r ON h.ref_id = r.ref_id
+    JOIN browsers b ON h.browser_id = b.browser_id
+    JOIN systems s ON h.system_id = s.system_id
+    WHERE h.site_id = ? AND ${cursor} AND h.created_at <= ?
+    ORDER BY h.created_at ASC, h.hit_id ASC
+    LIMIT ?
+  `).bind(siteId, ...cursorParams, end, limit).all<ExportRow>();
+
+  return result.results || [];
+}
+
+/**
+ * CSV header line
+ */
+export function csvHeader(): string {
+  return ['format_version', ...EXPORT_COLUMNS].join(',') + '\r\n';
+}
+
+/**
+ * Format a row as a CSV line
+ */
+export function toCsvLine(row: ExportRow): string {
+  const values = [EXPORT_FORMAT_VERSION, ...EXPORT_COLUMNS.map(column => row[column])];
+  return values.map(csvEscape).join(',') + '\r\n';
+}
+
+/**
+ * Format a row as an NDJSON line
+ */
+export function toNdjsonLine(row: ExportRow): string {
+  return JSON.stringify({ format_version: EXPORT_FORMAT_VERSION, ...row }) + '\n';
+}
+
+/**
+ * Quote a CSV field when needed (RFC 4180)
+ * Paths, titles and referrers come from visitors, so text that a
+ * spreadsheet would run as a formula is prefixed with a quote
+ */
+function csvEscape(value: string | number | null): string {
+  if (value === null) return '';
+
+  const str = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(str)) {
+    return `"'${str.replace(/"/g, '""')}"`;
+  }
+  if (/[",\r\n]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
@@ -0,0 +1,505 @@
+/**
+ * GoatCounter CSV import
+ *
+ * Imports GoatCounter's CSV export (format version 2) in chunks of rows.
+ * Each chunk is committed together with the job's progress, so an
+ * interrupted import resumes at the first row that wasn't stored.
+ */
+
+import type { ImportJob } from '../types';
+import { formatHour, formatDay, normalizeWidth } from '../lib/db';
+import { SESSION_GAP_SECONDS } from '../lib/session';
+
+// Header of a GoatCounter version 2 export; the first column carries the version
+export const GOATCOUNTER_HEADER = [
+  '2Path', 'Title', 'Event', 'UserAgent', 'Browser', 'System', 'Session', 'Bot',
+  'Referrer', 'Referrer scheme', 'Screen size', 'Location', 'FirstVisit', 'Date'
+];
+
+// Largest chunk accepted in one request, to stay within Worker limits
+export const MAX_IMPORT_CHUNK_ROWS = 500;
+
+// Column positions in GOATCOUNTER_HEADER
+const COL = {
+  path: 0, title: 1, event: 2, browser: 4, system: 5, session: 6, bot: 7,
+  ref: 8, refScheme: 9, size: 10, location: 11, firstVisit: 12, date: 13,
+};
+
+interface ImportRow {
+  path: string;
+  title: string;
+  event: boolean;
+  browserName: string;
+  browserVersion: string;
+  osName: string;
+  osVersion: string;
+  session: string;
+  ref: string;
+  refScheme: string;
+  width: number | null;
+  location: string;
+  region: string;
+  firstVisit: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Check that a header row is a GoatCounter version 2 export
+ */
+export function isGoatCounterHeader(fields: string[]): boolean {
+  return fields.length === GOATCOUNTER_HEADER.length &&
+    fields.every((field, i) => field.trim().toLowerCase() === GOATCOUNTER_HEADER[i].toLowerCase());
+}
+
+/**
+ * Create an import job
+ */
+export async function createImportJob(
+  db: D1Database,
+  siteId: number,
+  filename: string,
+  totalRows: number
+): Promise<ImportJob> {
+  const now = new Date().toISOString();
+  const job = await db
+    .prepare(`
+      INSERT INTO imports (site_id, filename, total_rows, status, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      RETURNING *
+    `)
+    .bind(siteId, filename, totalRows, totalRows > 0 ? 'running' : 'done', now, now)
+    .first<ImportJob>();
+
+  return job!;
+}
+
+/**
+ * Get an import job
+ */
+export async function getImportJob(db: D1Database, importId: number): Promise<ImportJob | null> {
+  return db
+    .prepare('SELECT * FROM imports WHERE import_id = ?')
+    .bind(importId)
+    .first<ImportJob>();
+}
+
+/**
+ * List recent import jobs, newest first, of one site when given
+ */
+export async function getImportJobs(db: D1Database, siteId?: number, limit: number = 20): Promise<ImportJob[]> {
+  const result = await (siteId === undefined
+    ? db.prepare('SELECT * FROM imports ORDER BY import_id DESC LIMIT ?').bind(limit)
+    : db.prepare('SELECT * FROM imports WHERE site_id = ? ORDER BY import_id DESC LIMIT ?').bind(siteId, limit)
+  ).all<ImportJob>();
+
+  return result.results || [];
+}
+
+/**
+ * Import one chunk of CSV rows starting at the job's next_row
+ *
+ * Dimension rows are created first; hits, aggregates and the job's
+ * progress are then written in a single batch, which D1 runs as one
+ * transaction. D1 limits the queries per invocation and the parameters
+ * per query, so rows are counted per aggregate key here and each table
+ * gets a single statement that reads its rows from one JSON parameter.
+ */
+export async function importChunk(
+  db: D1Database,
+  job: ImportJob,
+  rows: string[][]
+): Promise<ImportJob> {
+  const parsed: ImportRow[] = [];
+  for (const fields of rows) {
+    const row = parseRow(fields);
+    if (row) parsed.push(row);
+  }
+  const skipped = rows.length - parsed.length;
+
+  const ids = await resolveDimensions(db, job.site_id, parsed);
+
+  // Regions are only kept for sites that record them
+  const site = await db
+    .prepare('SELECT collect_regions FROM sites WHERE site_id = ?')
+    .bind(job.site_id)
+    .first<{ collect_regions: number }>();
+  const collectRegions = !!site?.collect_regions;
+
+  const hits: (string | number | null)[][] = [];
+  const hitCounts: Tally = new Map();
+  const hitStats = new Map<string, { pathId: number; day: string; stats: number[] }>();
+  const refCounts: Tally = new Map();
+  const browserStats: Tally = new Map();
+  const systemStats: Tally = new Map();
+  const locationStats: Tally = new Map();
+  const regionStats: Tally = new Map();
+  const sizeStats: Tally = new Map();
+
+  for (const row of parsed) {
+    const pathId = ids.paths.get(row.path)!;
+    const refId = ids.refs.get(refKey(row.ref, row.refScheme)) ?? 1;
+    const browserId = ids.browsers.get(nameVersionKey(row.browserName, row.browserVersion)) ?? 1;
+    const systemId = ids.systems.get(nameVersionKey(row.osName, row.osVersion)) ?? 1;
+    const hour = formatHour(row.createdAt);
+    const day = formatDay(row.createdAt);
+
+    // GoatCounter exports have no UTM parameters, event properties or
+    // languages; visitors, entries and exits are recounted below
+    hits.push([pathId, refId, browserId, systemId, row.session, row.firstVisit ? 1 : 0, row.width, row.location, row.createdAt.toISOString()]);
+    tally(hitCounts, pathId, hour);
+
+    const dayKey = `${pathId}|${day}`;
+    const daily = hitStats.get(dayKey) ?? { pathId, day, stats: new Array(24).fill(0) };
+    daily.stats[row.createdAt.getUTCHours()]++;
+    hitStats.set(dayKey, daily);
+
+    // Only count dimensions on first visit, like live hits
+    if (row.firstVisit) {
+      if (refId > 1) tally(refCounts, pathId, refId, hour);
+      if (browserId > 1) tally(browserStats, pathId, browserId, day);
+      if (systemId > 1) tally(systemStats, pathId, systemId, day);
+      if (row.location) tally(locationStats, pathId, day, row.location);
+      // GoatCounter exports only have the region code
+      if (collectRegions && row.region) tally(regionStats, pathId, day, row.region, '');
+      if (row.width !== null && row.width > 0) tally(sizeStats, pathId, day, row.width);
+    }
+  }
+
+  // The route rejects a chunk whose offset isn't the job's next_row with a
+  // 409 before calling this. Two requests for the same chunk can both pass
+  // that check, though, and D1 has no transactions that span a read and a
+  // batch, so the batch checks the offset again itself:
+  //
+  // 1. The progress update must be the first statement. It only matches
+  //    while next_row is still the offset this chunk was parsed for.
+  // 2. The guard must directly follow it, as changes() reports the
+  //    statement before. When the update matched nothing, the guard inserts
+  //    the job's own import_id again; the primary key conflict fails the
+  //    batch, which D1 then rolls back as a whole, hits and aggregates
+  //    included. The route re-reads the job and answers 409.
+  const nextRow = job.next_row + rows.length;
+  const statements: D1PreparedStatement[] = [
+    db.prepare(`
+      UPDATE imports
+      SET next_row = ?, imported = imported + ?, skipped = skipped + ?, status = ?, updated_at = ?
+      WHERE import_id = ? AND next_row = ?
+      RETURNING *
+    `).bind(
+      nextRow,
+      parsed.length,
+      skipped,
+      nextRow >= job.total_rows ? 'done' : 'running',
+      new Date().toISOString(),
+      job.import_id,
+      job.next_row
+    ),
+    // Fails on purpose when the update above matched no row, see above
+    db.prepare(`
+      INSERT INTO imports (import_id, site_id, total_rows, created_at, updated_at)
+      SELECT ?, 0, 0, '', '' WHERE changes() = 0
+    `).bind(job.import_id),
+  ];
+
+  if (hits.length > 0) {
+    statements.push(
+      db.prepare(`
+        INSERT INTO hits (site_id, path_id, ref_id, browser_id, system_id, session, first_visit, first_hit, width, location, language, created_at)
+        SELECT ?, json_extract(value, '$[0]'), json_extract(value, '$[1]'), json_extract(value, '$[2]'), json_extract(value, '$[3]'),
+          json_extract(value, '$[4]'), json_extract(value, '$[5]'), 0, json_extract(value, '$[6]'), json_extract(value, '$[7]'),
+          NULL, json_extract(value, '$[8]')
+        FROM json_each(?)
+      `).bind(job.site_id, JSON.stringify(hits)),
+      db.prepare(`
+        INSERT INTO hit_stats (site_id, path_id, day, stats)
+        SELECT ?, json_extract(value, '$[0]'), json_extract(value, '$[1]'), json_extract(value, '$[2]')
+        FROM json_each(?) WHERE true
+        ON CONFLICT(path_id, day) DO UPDATE SET
+          stats = (
+            SELECT json_group_array(COALESCE(json_extract(hit_stats.stats, '$[' || h.key || ']'), 0) + h.value)
+            FROM json_each(excluded.stats) h
+          )
+      `).bind(job.site_id, JSON.stringify([...hitStats.values()].map(d => [d.pathId, d.day, JSON.stringify(d.stats)])))
+    );
+  }
+
+  statements.push(
+    ...upsertTally(db, job.site_id, 'hit_counts', ['path_id', 'hour'], 'total', hitCounts),
+    ...upsertTally(db, job.site_id, 'ref_counts', ['path_id', 'ref_id', 'hour'], 'total', refCounts),
+    ...upsertTally(db, job.site_id, 'browser_stats', ['path_id', 'browser_id', 'day'], 'count', browserStats),
+    ...upsertTally(db, job.site_id, 'system_stats', ['path_id', 'system_id', 'day'], 'count', systemStats),
+    ...upsertTally(db, job.site_id, 'location_stats', ['path_id', 'day', 'location'], 'count', locationStats),
+    ...upsertTally(db, job.site_id, 'region_stats', ['path_id', 'day', 'region', 'name'], 'count', regionStats, 3),
+    ...upsertTally(db, job.site_id, 'size_stats', ['path_id', 'day', 'width'], 'count', sizeStats)
+  );
+
+  // Imported rows carry no session state, so count each day's unique
+  // sessions, entries, exits and visits from the stored hits instead
+  if (parsed.length > 0) {
+    const days = parsed.map(row => formatDay(row.createdAt)).sort();
+    const firstDay = days[0];
+    const lastDayEnd = `${days[days.length - 1]}T23:59:59.999Z`;
+
+    statements.push(
+      db.prepare(`
+        INSERT INTO visitor_stats (site_id, day, count)
+        SELECT site_id, substr(created_at, 1, 10), COUNT(DISTINCT session)
+        FROM hits
+        WHERE site_id = ? AND created_at >= ? AND created_at <= ?
+          AND path_id IN (SELECT path_id FROM paths WHERE site_id = ? AND event = 0)
+        GROUP BY site_id, substr(created_at, 1, 10)
+        ON CONFLICT(site_id, day) DO UPDATE SET count = excluded.count
+      `).bind(job.site_id, firstDay, lastDayEnd, job.site_id),
+      db.prepare(`
+        INSERT INTO entry_exit_stats (site_id, path_id, day, entries, exits)
+        SELECT site_id, path_id, day, SUM(first_row = 1), SUM(last_row = 1)
+        FROM (
+          SELECT
+            site_id,
+            path_id,
+            substr(created_at, 1, 10) as day,
+            ROW_NUMBER() OVER (PARTITION BY session, substr(created_at, 1, 10) ORDER BY created_at, hit_id) as first_row,
+            ROW_NUMBER() OVER (PARTITION BY session, substr(created_at, 1, 10) ORDER BY created_at DESC, hit_id DESC) as last_row
+          FROM hits
+          WHERE site_id = ? AND created_at >= ? AND created_at <= ? AND session IS NOT NULL
+            AND path_id IN (SELECT path_id FROM paths WHERE site_id = ? AND event = 0)
+        )
+        GROUP BY site_id, path_id, day
+        ON CONFLICT(path_id, day) DO UPDATE SET entries = excluded.entries, exits = excluded.exits
+      `).bind(job.site_id, firstDay, lastDayEnd, job.site_id),
+      db.prepare(`
+        DELETE FROM visits WHERE site_id = ? AND first_at >= ? AND first_at <= ?
+      `).bind(job.site_id, firstDay, lastDayEnd),
+      db.prepare(`
+        INSERT INTO visits (site_id, session, first_at, last_at, pageviews, events, duration)
+        SELECT
+          site_id,
+          session,
+          MIN(created_at),
+          MAX(created_at),
+          SUM(event = 0),
+          SUM(event = 1),
+          CAST(ROUND((julianday(MAX(created_at)) - julianday(MIN(created_at))) * 86400) AS INTEGER)
+        FROM (
+          SELECT
+            site_id,
+            session,
+            day,
+            created_at,
+            event,
+            SUM(new_visit) OVER (PARTITION BY session, day ORDER BY created_at, hit_id ROWS UNBOUNDED PRECEDING) as visit
+          FROM (
+            SELECT
+              h.site_id,
+              h.session,
+              substr(h.created_at, 1, 10) as day,
+              h.created_at,
+              h.hit_id,
+              p.event,
+              COALESCE((julianday(h.created_at) - julianday(LAG(h.created_at) OVER (
+                PARTITION BY h.session, substr(h.created_at, 1, 10) ORDER BY h.created_at, h.hit_id
+              ))) * 86400 > ?, 1) as new_visit
+            FROM hits h
+            JOIN paths p ON h.path_id = p.path_id
+            WHERE h.site_id = ? AND h.created_at >= ? AND h.created_at <= ? AND h.session IS NOT NULL
+          )
+        )
+        GROUP BY site_id, session, day, visit
+      `).bind(SESSION_GAP_SECONDS, job.site_id, firstDay, lastDayEnd)
+    );
+  }
+
+  const results = await db.batch<ImportJob>(statements);
+  return results[0].results[0];
+}
+
+// Rows counted per aggregate key: the key columns' values and the count
+type Tally = Map<string, { values: (string | number)[]; count: number }>;
+
+/**
+ * Count one row for the given key column values
+ */
+function tally(counts: Tally, ...values: (string | number)[]): void {
+  const key = values.join('|');
+  const entry = counts.get(key);
+  if (entry) {
+    entry.count++;
+  } else {
+    counts.set(key, { values, count: 1 });
+  }
+}
+
+/**
+ * Build the upsert adding a tally to an aggregate table (none when empty)
+ * The primary key is the first keyColumns columns; any further columns
+ * are only set on insert.
+ */
+function upsertTally(
+  db: D1Database,
+  siteId: number,
+  table: string,
+  columns: string[],
+  countColumn: string,
+  counts: Tally,
+  keyColumns: number = columns.length
+): D1PreparedStatement[] {
+  if (counts.size === 0) return [];
+
+  const values = columns.map((_, i) => `json_extract(value, '$[${i}]')`).join(', ');
+  const rows = [...counts.values()].map(entry => [...entry.values, entry.count]);
+
+  return [db.prepare(`
+    INSERT INTO ${table} (site_id, ${columns.join(', ')}, ${countColumn})
+    SELECT ?, ${values}, json_extract(value, '$[${columns.length}]')
+    FROM json_each(?) WHERE true
+    ON CONFLICT(${columns.slice(0, keyColumns).join(', ')}) DO UPDATE SET ${countColumn} = ${countColumn} + excluded.${countColumn}
+  `).bind(siteId, JSON.stringify(rows))];
+}
+
+/**
+ * Parse one CSV row, returning null for bots and malformed rows
+ */
+function parseRow(fields: string[]): ImportRow | null {
+  if (fields.length < GOATCOUNTER_HEADER.length) return null;
+
+  const path = fields[COL.path];
+  if (!path || path.length > 2048) return null;
+
+  if (parseInt(fields[COL.bot] || '0', 10) > 0) return null;
+
+  const createdAt = new Date(fields[COL.date]);
+  if (isNaN(createdAt.getTime())) return null;
+
+  const browser = splitNameVersion(fields[COL.browser]);
+  const system = splitNameVersion(fields[COL.system]);
+
+  // Location may be a region code like "US-CA"
+  const [country, subdivision] = fields[COL.location].toUpperCase().split('-');
+  const location = country.slice(0, 2);
+  const region = location.length === 2 && subdivision ? `${location}-${subdivision.slice(0, 3)}` : '';
+
+  return {
+    path,
+    title: fields[COL.title],
+    event: parseBool(fields[COL.event]),
+    browserName: browser.name,
+    browserVersion: browser.version,
+    osName: system.name,
+    osVersion: system.version,
+    session: fields[COL.session],
+    ref: fields[COL.ref],
+    refScheme: fields[COL.refScheme] || 'o',
+    // Screen size is "width,height,scale"
+    width: normalizeWidth(parseInt(fields[COL.size], 10) || null),
+    location,
+    region,
+    firstVisit: parseBool(fields[COL.firstVisit]),
+    createdAt,
+  };
+}
+
+/**
+ * Get or create the ids of every path, referrer, browser and system in
+ * the chunk using one batch of upserts, keyed like refKey and nameVersionKey
+ */
+async function resolveDimensions(
+  db: D1Database,
+  siteId: number,
+  rows: ImportRow[]
+): Promise<{
+  paths: Map<string, number>;
+  refs: Map<string, number>;
+  browsers: Map<string, number>;
+  systems: Map<string, number>;
+}> {
+  const paths = new Map<string, { title: string; event: boolean }>();
+  const refs = new Map<string, [string, string]>();
+  const browsers = new Map<string, [string, string]>();
+  const systems = new Map<string, [string, string]>();
+
+  for (const row of rows) {
+    const existing = paths.get(row.path);
+    paths.set(row.path, {
+      title: row.title || existing?.title || '',
+      event: existing?.event ?? row.event,
+    });
+    // Empty referrer, browser and system are always id 1
+    if (row.ref) refs.set(refKey(row.ref, row.refScheme), [row.ref, row.refScheme]);
+    if (row.browserName) browsers.set(nameVersionKey(row.browserName, row.browserVersion), [row.browserName, row.browserVersion]);
+    if (row.osName) systems.set(nameVersionKey(row.osName, row.osVersion), [row.osName, row.osVersion]);
+  }
+
+  // One upsert per table; RETURNING gives the ids of new and existing rows
+  const [pathIds, refIds, browserIds, systemIds] = await db.batch<{ id: number; key: string }>([
+    db.prepare(`
+      INSERT INTO paths (site_id, path, title, event)
+      SELECT ?, json_extract(value, '$[0]'), json_extract(value, '$[1]'), json_extract(value, '$[2]')
+      FROM json_each(?) WHERE true
+      ON CONFLICT(site_id, path) DO UPDATE SET
+        title = CASE WHEN excluded.title != '' THEN excluded.title ELSE paths.title END
+      RETURNING path_id as id, path as key
+    `).bind(siteId, JSON.stringify([...paths].map(([path, { title, event }]) => [path, title, event ? 1 : 0]))),
+    db.prepare(`
+      INSERT INTO refs (ref, ref_scheme)
+      SELECT json_extract(value, '$[0]'), json_extract(value, '$[1]')
+      FROM json_each(?) WHERE true
+      ON CONFLICT(ref, ref_scheme) DO UPDATE SET ref = excluded.ref
+      RETURNING ref_id as id, ref_scheme || '|' || ref as key
+    `).bind(JSON.stringify([...refs.values()])),
+    db.prepare(`
+      INSERT INTO browsers (name, version)
+      SELECT json_extract(value, '$[0]'), json_extract(value, '$[1]')
+      FROM json_each(?) WHERE true
+      ON CONFLICT(name, version) DO UPDATE SET name = excluded.name
+      RETURNING browser_id as id, name || '|' || version as key
+    `).bind(JSON.stringify([...browsers.values()])),
+    db.prepare(`
+      INSERT INTO systems (name, version)
+      SELECT json_extract(value, '$[0]'), json_extract(value, '$[1]')
+      FROM json_each(?) WHERE true
+      ON CONFLICT(name, version) DO UPDATE SET name = excluded.name
+      RETURNING system_id as id, name || '|' || version as key
+    `).bind(JSON.stringify([...systems.values()])),
+  ]);
+
+  const toIds = (result: D1Result<{ id: number; key: string }>) =>
+    new Map(result.results.map(row => [row.key, row.id]));
+
+  return {
+    paths: toIds(pathIds),
+    refs: toIds(refIds),
+    browsers: toIds(browserIds),
+    systems: toIds(systemIds),
+  };
+}
+
+/**
+ * Split "Firefox 115.0" into name and version
+ */
+function splitNameVersion(value: string): { name: string; version: string } {
+  const match = value.trim().match(/^(.*?)\s+(\d[\w.]*)$/);
+  if (match) {
+    return { name: match[1], version: match[2] };
+  }
+  return { name: value.trim(), version: '' };
+}
+
+/**
+ * Parse GoatCounter's boolean columns
+ */
+function parseBool(value: string): boolean {
+  return value === 'true' || value === '1';
+}
+
+/**
+ * Map key for a referrer
+ */
+function refKey(ref: string, scheme: string): string {
+  return `${scheme}|${ref}`;
+}
+
+/**
+ * Map key for a browser or system
+ */
+function nameVersionKey(name: string, version: string): string {
+  return `${name}|${version}`;
+}
@@ -7,30 +7,53 @@
 import type {
   PageStats,
   PageWithChange,
+  EntryExitStats,
   RefStats,
   BrowserStats,
   SystemStats,
   LocationStats,
+  RegionStats,
+  PropStats,
   SizeStats,
-  TimeSeriesPoint
+  LanguageStats,
+  CampaignStats,
+  GoalStats,
+  FunnelStats,
+  FunnelStep,
+  EventStats,
+  OutboundStats,
+  TimeOnPageStats,
+  ScrollDepthStats,
+  VitalMetric,
+  VitalStats,
+  ErrorStats,
+  TimeSeriesPoint,
+  Path,
+  StatsScope,
+  Engagement
 } from '../types';
+import { getFunnels, formatFunnelStep } from '../lib/funnels';
+import { TIME_BUCKETS, emptyHistogram, addHistogram, percentile } from '../lib/histogram';
+import { VITALS, isVitalMetric, rateVital } from '../lib/vitals';
 
 /**
  * Get total hits over time (hourly or daily based on range)
  */
 export async function getTotalHits(
   db: D1Database,
+  scope: StatsScope,
   start: string,
   end: string
 ): Promise<{ total: number; timeSeries: TimeSeriesPoint[] }> {
   // Get hourly data
+  const where = scopeWhere(scope);
   const result = await db.prepare(`
     SELECT hour as time, SUM(total) as count
     FROM hit_counts
-    WHERE hour >= ? AND hour <= ?
+    WHERE ${where.sql} AND hour >= ? AND hour <= ?
     GROUP BY hour
     ORDER BY hour ASC
-  `).bind(start, end).all<{ time: string; count: number }>();
+  `).bind(...where.params, start, end).all<{ time: string; count: number }>();
 
   const timeSeries = result.results || [];
   const total = timeSeries.reduce((sum, point) => sum + point.count, 0);
@@ -39,18 +62,33 @@ export async function getTotalHits(
 }
 
 /**
- * Get unique visitor estimate (count distinct first visits)
+ * Get unique visitors
+ * Site-wide counts come from visitor_stats, which only counts pageviews;
+ * for a filter, a single page or events the per-path first visits are
+ * counted instead
  */
 export async function getTotalVisitors(
   db: D1Database,
+  scope: StatsScope,
   start: string,
   end: string
 ): Promise<number> {
+  if (!scope.filter && !scope.pathId && scope.events !== 'only') {
+    const visitors = await db.prepare(`
+      SELECT SUM(count) as count
+      FROM visitor_stats
+      WHERE site_id = ? AND day >= ? AND day <= ?
+    `).bind(scope.siteId, start.slice(0, 10), end.slice(0, 10)).first<{ count: number | null }>();
+
+    return visitors?.count || 0;
+  }
+
+  const where = scopeWhere(scope);
   const result = await db.prepare(`
     SELECT COUNT(*) as count
     FROM hits
-    WHERE created_at >= ? AND created_at <= ? AND first_visit = 1
-  `).bind(start, end).first<{ count: number }>();
+    WHERE ${where.sql} AND created_at >= ? AND created_at <= ? AND first_visit = 1
+  `).bind(...where.params, start, end).first<{ count: number }>();
 
   return result?.count || 0;
 }
@@ -60,10 +98,12 @@ export async function getTotalVisitors(
  */
 export async function getTopPages(
   db: D1Database,
+  scope: StatsScope,
   start: string,
   end: string,
   limit: number = 10
 ): Promise<PageStats[]> {
+  const where = scopeWhere(scope, 'hc');
   const result = await db.prepare(`
     SELECT
       p.path,
@@ -72,24 +112,347 @@ export async function getTopPages(
       SUM(hc.total) as total
     FROM hit_counts hc
     JOIN paths p ON hc.path_id = p.path_id
-    WHERE hc.hour >= ? AND hc.hour <= ?
+    WHERE ${where.sql} AND hc.hour >= ? AND hc.hour <= ?
     GROUP BY hc.path_id
     ORDER BY total DESC
     LIMIT ?
-  `).bind(start, end, limit).all<PageStats>();
+  `).bind(...where.params, start, end, limit).all<PageStats>();
+
+  return result.results || [];
+}
+
+/**
+ * Get event totals, daily counts and top events with comparison to the
+ * previous period
+ */
+export async function getEventStats(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string,
+  limit: number = 10
+): Promise<EventStats> {
+  const events: StatsScope = { ...scope, events: 'only' };
+
+  const [totals, daily, top] = await Promise.all([
+    getTotalsWithChange(db, events, start, end),
+    getDailyTotals(db, events, start, end),
+    getTopPagesWithChange(db, events, start, end, limit)
+  ]);
+
+  return {
+    total: totals.totalHits,
+    totalChange: totals.totalHitsChange,
+    unique: totals.totalVisitors,
+    uniqueChange: totals.totalVisitorsChange,
+    daily,
+    events: top.pages,
+    totalCount: top.totalCount
+  };
+}
+
+/**
+ * Get top outbound link destinations
+ * count.js records outbound clicks as events with the absolute URL as path
+ */
+export async function getOutboundStats(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string,
+  limit: number = 10
+): Promise<OutboundStats[]> {
+  const where = scopeWhere({ ...scope, events: 'only' }, 'hc');
+  const result = await db.prepare(`
+    SELECT
+      p.path_id,
+      p.path as url,
+      p.title,
+      SUM(hc.total) as count
+    FROM hit_counts hc
+    JOIN paths p ON hc.path_id = p.path_id
+    WHERE ${where.sql} AND (p.path LIKE 'http://%' OR p.path LIKE 'https://%')
+      AND hc.hour >= ? AND hc.hour <= ?
+    GROUP BY hc.path_id
+    ORDER BY count DESC
+    LIMIT ?
+  `).bind(...where.params, start, end, limit).all<OutboundStats>();
+
+  return result.results || [];
+}
+
+/**
+ * Get top entry pages, where sessions started
+ */
+export async function getEntryPages(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string,
+  limit: number = 10
+): Promise<EntryExitStats[]> {
+  return getEntryExitPages(db, scope, start, end, 'entries', limit);
+}
+
+/**
+ * Get top exit pages, where sessions ended
+ */
+export async function getExitPages(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string,
+  limit: number = 10
+): Promise<EntryExitStats[]> {
+  return getEntryExitPages(db, scope, start, end, 'exits', limit);
+}
+
+/**
+ * Get median and average time on page for the pages with the most reported times
+ */
+export async function getTimeOnPage(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string,
+  limit: number = 10
+): Promise<TimeOnPageStats[]> {
+  const startDay = start.slice(0, 10);
+  const endDay = end.slice(0, 10);
+
+  const where = scopeWhere(scope, 'ts');
+  const result = await db.prepare(`
+    SELECT
+      p.path_id,
+      p.path,
+      p.title,
+      SUM(ts.count) as count,
+      SUM(ts.total_ms) as total_ms
+    FROM time_stats ts
+    JOIN paths p ON ts.path_id = p.path_id
+    WHERE ${where.sql} AND ts.day >= ? AND ts.day <= ?
+    GROUP BY ts.path_id
+    ORDER BY count DESC
+    LIMIT ?
+  `).bind(...where.params, startDay, endDay, limit).all<{
+    path_id: number;
+    path: string;
+    title: string;
+    count: number;
+    total_ms: number;
+  }>();
+
+  const pages = result.results || [];
+  if (pages.length === 0) return [];
+
+  // Add up each page's daily histograms for the median
+  const histograms = new Map(pages.map(page => [page.path_id, emptyHistogram(TIME_BUCKETS)]));
+  const pathIds = pages.map(page => page.path_id);
+  const histogramResult = await db.prepare(`
+    SELECT path_id, histogram
+    FROM time_stats
+    WHERE day >= ? AND day <= ? AND path_id IN (SELECT value FROM json_each(?))
+  `).bind(startDay, endDay, JSON.stringify(pathIds)).all<{ path_id: number; histogram: string }>();
+
+  for (const row of histogramResult.results || []) {
+    addHistogram(histograms.get(row.path_id)!, row.histogram);
+  }
+
+  return pages.map(page => ({
+    path_id: page.path_id,
+    path: page.path,
+    title: page.title,
+    count: page.count,
+    median: percentile(TIME_BUCKETS, histograms.get(page.path_id)!, 50),
+    average: page.count > 0 ? Math.round(page.total_ms / page.count) : null
+  }));
+}
+
+/**
+ * Get pageviews by the deepest scroll depth they reached
+ */
+export async function getScrollDepth(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string
+): Promise<ScrollDepthStats[]> {
+  const startDay = start.slice(0, 10);
+  const endDay = end.slice(0, 10);
+
+  const where = scopeWhere(scope);
+  const result = await db.prepare(`
+    SELECT
+      depth,
+      SUM(count) as count
+    FROM scroll_stats
+    WHERE ${where.sql} AND day >= ? AND day <= ?
+    GROUP BY depth
+    ORDER BY depth
+  `).bind(...where.params, startDay, endDay).all<ScrollDepthStats>();
 
   return result.results || [];
 }
 
+/**
+ * Get the 75th percentile of each Core Web Vital and its rating
+ */
+export async function getVitals(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string
+): Promise<VitalStats[]> {
+  const startDay = start.slice(0, 10);
+  const endDay = end.slice(0, 10);
+
+  const where = scopeWhere(scope);
+  const result = await db.prepare(`
+    SELECT metric, count, histogram
+    FROM vitals_stats
+    WHERE ${where.sql} AND day >= ? AND day <= ?
+  `).bind(...where.params, startDay, endDay).all<{ metric: string; count: number; histogram: string }>();
+
+  // Add up the daily histograms of each path
+  const metrics = Object.keys(VITALS) as VitalMetric[];
+  const counts = new Map(metrics.map(metric => [metric, 0]));
+  const histograms = new Map(metrics.map(metric => [metric, emptyHistogram(VITALS[metric].buckets)]));
+  for (const row of result.results || []) {
+    if (!isVitalMetric(row.metric)) continue;
+    counts.set(row.metric, counts.get(row.metric)! + row.count);
+    addHistogram(histograms.get(row.metric)!, row.histogram);
+  }
+
+  return metrics.map(metric => {
+    const p75 = percentile(VITALS[metric].buckets, histograms.get(metric)!, 75);
+    return {
+      metric,
+      count: counts.get(metric)!,
+      p75,
+      rating: p75 === null ? null : rateVital(metric, p75)
+    };
+  });
+}
+
+/**
+ * Get the most frequent JavaScript errors, with the pages throwing them
+ * most and their browsers and systems
+ */
+export async function getErrorStats(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string,
+  limit: number = 10
+): Promise<ErrorStats[]> {
+  const startDay = start.slice(0, 10);
+  const endDay = end.slice(0, 10);
+
+  // Errors are reported on pages, so there are no events to leave out
+  const where = scopeWhere({ ...scope, events: 'include' }, 'es');
+  const result = await db.prepare(`
+    SELECT
+      e.error_id,
+      e.message,
+      e.source,
+      SUM(es.count) as count
+    FROM error_stats es
+    JOIN errors e ON es.error_id = e.error_id
+    WHERE ${where.sql} AND es.day >= ? AND es.day <= ?
+    GROUP BY es.error_id
+    ORDER BY count DESC
+    LIMIT ?
+  `).bind(...where.params, startDay, endDay, limit).all<{
+    error_id: number;
+    message: string;
+    source: string;
+    count: number;
+  }>();
+
+  const errors = result.results || [];
+  if (errors.length === 0) return [];
+
+  // Ids go in as one JSON array, as D1 caps the parameters per query
+  const errorIds = JSON.stringify(errors.map(e => e.error_id));
+  const [pagesResult, browsersResult, systemsResult] = await Promise.all([
+    db.prepare(`
+      SELECT error_id, path_id, path, count FROM (
+        SELECT
+          es.error_id,
+          es.path_id,
+          p.path,
+          SUM(es.count) as count,
+          ROW_NUMBER() OVER (PARTITION BY es.error_id ORDER BY SUM(es.count) DESC) as rank
+        FROM error_stats es
+        JOIN paths p ON es.path_id = p.path_id
+        WHERE ${where.sql} AND es.day >= ? AND es.day <= ? AND es.error_id IN (SELECT value FROM json_each(?))
+        GROUP BY es.error_id, es.path_id
+      )
+      WHERE rank <= 5
+      ORDER BY count DESC
+    `).bind(...where.params, startDay, endDay, errorIds).all<{
+      error_id: number;
+      path_id: number;
+      path: string;
+      count: number;
+    }>(),
+    db.prepare(`
+      SELECT
+        es.error_id,
+        b.name,
+        SUM(es.count) as count
+      FROM error_stats es
+      JOIN browsers b ON es.browser_id = b.browser_id
+      WHERE ${where.sql} AND es.day >= ? AND es.day <= ? AND es.error_id IN (SELECT value FROM json_each(?))
+      GROUP BY es.error_id, b.name
+      ORDER BY count DESC
+    `).bind(...where.params, startDay, endDay, errorIds).all<{
+      error_id: number;
+      name: string;
+      count: number;
+    }>(),
+    db.prepare(`
+      SELECT
+        es.error_id,
+        s.name,
+        SUM(es.count) as count
+      FROM error_stats es
+      JOIN systems s ON es.system_id = s.system_id
+      WHERE ${where.sql} AND es.day >= ? AND es.day <= ? AND es.error_id IN (SELECT value FROM json_each(?))
+      GROUP BY es.error_id, s.name
+      ORDER BY count DESC
+    `).bind(...where.params, startDay, endDay, errorIds).all<{
+      error_id: number;
+      name: string;
+      count: number;
+    }>()
+  ]);
+
+  return errors.map(error => ({
+    ...error,
+    pages: (pagesResult.results || [])
+      .filter(row => row.error_id === error.error_id)
+      .map(({ path_id, path, count }) => ({ path_id, path, count })),
+    browsers: (browsersResult.results || [])
+      .filter(row => row.error_id === error.error_id)
+      .map(({ name, count }) => ({ name: name || 'Unknown', count })),
+    systems: (systemsResult.results || [])
+      .filter(row => row.error_id === error.error_id)
+      .map(({ name, count }) => ({ name: name || 'Unknown', count }))
+  }));
+}
+
 /**
  * Get top referrers
  */
 export async function getTopRefs(
   db: D1Database,
+  scope: StatsScope,
   start: string,
   end: string,
   limit: number = 10
 ): Promise<RefStats[]> {
+  const where = scopeWhere(scope, 'rc');
   const result = await db.prepare(`
     SELECT
       r.ref,
@@ -97,11 +460,11 @@ export async function getTopRefs(
       SUM(rc.total) as total
     FROM ref_counts rc
     JOIN refs r ON rc.ref_id = r.ref_id
-    WHERE rc.hour >= ? AND rc.hour <= ?
+    WHERE ${where.sql} AND rc.hour >= ? AND rc.hour <= ?
     GROUP BY rc.ref_id
     ORDER BY total DESC
     LIMIT ?
-  `).bind(start, end, limit).all<RefStats>();
+  `).bind(...where.params, start, end, limit).all<RefStats>();
 
   return result.results || [];
 }
@@ -111,6 +474,7 @@ export async function getTopRefs(
  */
 export async function getBrowserStats(
   db: D1Database,
+  scope: StatsScope,
   start: string,
   end: string,
   limit: number = 10
@@ -119,6 +483,7 @@ export async function getBrowserStats(
   const startDay = start.slice(0, 10);
   const endDay = end.slice(0, 10);
 
+  const where = scopeWhere(scope, 'bs');
   const result = await db.prepare(`
     SELECT
       b.name,
@@ -126,11 +491,11 @@ export async function getBrowserStats(
       SUM(bs.count) as count
     FROM browser_stats bs
     JOIN browsers b ON bs.browser_id = b.browser_id
-    WHERE bs.day >= ? AND bs.day <= ?
+    WHERE ${where.sql} AND bs.day >= ? AND bs.day <= ?
     GROUP BY bs.browser_id
     ORDER BY count DESC
     LIMIT ?
-  `).bind(startDay, endDay, limit).all<BrowserStats>();
+  `).bind(...where.params, startDay, endDay, limit).all<BrowserStats>();
 
   return result.results || [];
 }
@@ -140,6 +505,7 @@ export async function getBrowserStats(
  */
 export async function getSystemStats(
   db: D1Database,
+  scope: StatsScope,
   start: string,
   end: string,
   limit: number = 10
@@ -147,6 +513,7 @@ export async function getSystemStats(
   const startDay = start.slice(0, 10);
   const endDay = end.slice(0, 10);
 
+  const where = scopeWhere(scope, 'ss');
   const result = await db.prepare(`
     SELECT
       s.name,
@@ -154,11 +521,11 @@ export async function getSystemStats(
       SUM(ss.count) as count
     FROM system_stats ss
     JOIN systems s ON ss.system_id = s.system_id
-    WHERE ss.day >= ? AND ss.day <= ?
+    WHERE ${where.sql} AND ss.day >= ? AND ss.day <= ?
     GROUP BY ss.system_id
     ORDER BY count DESC
     LIMIT ?
-  `).bind(startDay, endDay, limit).all<SystemStats>();
+  `).bind(...where.params, startDay, endDay, limit).all<SystemStats>();
 
   return result.results || [];
 }
@@ -168,6 +535,7 @@ export async function getSystemStats(
  */
 export async function getLocationStats(
   db: D1Database,
+  scope: StatsScope,
   start: string,
   end: string,
   limit: number = 10
@@ -175,16 +543,143 @@ export async function getLocationStats(
   const startDay = start.slice(0, 10);
   const endDay = end.slice(0, 10);
 
+  const where = scopeWhere(scope);
   const result = await db.prepare(`
     SELECT
       location,
       SUM(count) as count
     FROM location_stats
-    WHERE day >= ? AND day <= ?
+    WHERE ${where.sql} AND day >= ? AND day <= ?
     GROUP BY location
     ORDER BY count DESC
     LIMIT ?
-  `).bind(startDay, endDay, limit).all<LocationStats>();
+  `).bind(...where.params, startDay, endDay, limit).all<LocationStats>();
+
+  return result.results || [];
+}
+
+/**
+ * Get region statistics, limited to the top regions of each country
+ */
+export async function getRegionStats(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string,
+  limit: number = 10
+): Promise<RegionStats[]> {
+  const startDay = start.slice(0, 10);
+  const endDay = end.slice(0, 10);
+
+  // Region codes start with the two-letter country code
+  const where = scopeWhere(scope);
+  const result = await db.prepare(`
+    SELECT region, name, count FROM (
+      SELECT
+        region,
+        MAX(name) as name,
+        SUM(count) as count,
+        ROW_NUMBER() OVER (PARTITION BY substr(region, 1, 2) ORDER BY SUM(count) DESC) as rank
+      FROM region_stats
+      WHERE ${where.sql} AND day >= ? AND day <= ?
+      GROUP BY region
+    )
+    WHERE rank <= ?
+    ORDER BY count DESC
+  `).bind(...where.params, startDay, endDay, limit).all<RegionStats>();
+
+  return result.results || [];
+}
+
+/**
+ * Get event property statistics, the top values of each key
+ */
+export async function getPropStats(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string,
+  limit: number = 10
+): Promise<PropStats[]> {
+  const startDay = start.slice(0, 10);
+  const endDay = end.slice(0, 10);
+
+  // Only events have properties, so there is nothing to leave out
+  const where = scopeWhere({ ...scope, events: 'include' }, 'ps');
+  const result = await db.prepare(`
+    SELECT key, value, count FROM (
+      SELECT
+        pr.key,
+        pr.value,
+        SUM(ps.count) as count,
+        ROW_NUMBER() OVER (PARTITION BY pr.key ORDER BY SUM(ps.count) DESC) as rank
+      FROM prop_stats ps
+      JOIN props pr ON ps.prop_id = pr.prop_id
+      WHERE ${where.sql} AND ps.day >= ? AND ps.day <= ?
+      GROUP BY ps.prop_id
+    )
+    WHERE rank <= ?
+    ORDER BY key, count DESC
+  `).bind(...where.params, startDay, endDay, limit).all<PropStats>();
+
+  return result.results || [];
+}
+
+/**
+ * Get language statistics
+ */
+export async function getLanguageStats(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string,
+  limit: number = 10
+): Promise<LanguageStats[]> {
+  const startDay = start.slice(0, 10);
+  const endDay = end.slice(0, 10);
+
+  const where = scopeWhere(scope);
+  const result = await db.prepare(`
+    SELECT
+      language,
+      SUM(count) as count
+    FROM language_stats
+    WHERE ${where.sql} AND day >= ? AND day <= ?
+    GROUP BY language
+    ORDER BY count DESC
+    LIMIT ?
+  `).bind(...where.params, startDay, endDay, limit).all<LanguageStats>();
+
+  return result.results || [];
+}
+
+/**
+ * Get campaign (UTM) statistics
+ */
+export async function getCampaignStats(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string,
+  limit: number = 10
+): Promise<CampaignStats[]> {
+  const startDay = start.slice(0, 10);
+  const endDay = end.slice(0, 10);
+
+  const where = scopeWhere(scope, 'cs');
+  const result = await db.prepare(`
+    SELECT
+      c.source,
+      c.medium,
+      c.campaign,
+      SUM(cs.count) as count
+    FROM campaign_stats cs
+    JOIN campaigns c ON cs.campaign_id = c.campaign_id
+    WHERE ${where.sql} AND cs.day >= ? AND cs.day <= ?
+    GROUP BY cs.campaign_id
+    ORDER BY count DESC
+    LIMIT ?
+  `).bind(...where.params, startDay, endDay, limit).all<CampaignStats>();
 
   return result.results || [];
 }
@@ -194,21 +689,23 @@ export async function getLocationStats(
  */
 export async function getSizeStats(
   db: D1Database,
+  scope: StatsScope,
   start: string,
   end: string
 ): Promise<SizeStats[]> {
   const startDay = start.slice(0, 10);
   const endDay = end.slice(0, 10);
 
+  const where = scopeWhere(scope);
   const result = await db.prepare(`
     SELECT
       width,
       SUM(count) as count
     FROM size_stats
-    WHERE day >= ? AND day <= ?
+    WHERE ${where.sql} AND day >= ? AND day <= ?
     GROUP BY width
     ORDER BY count DESC
-  `).bind(startDay, endDay).all<SizeStats>();
+  `).bind(...where.params, startDay, endDay).all<SizeStats>();
 
   return result.results || [];
 }
@@ -271,14 +768,27 @@ export function parsePeriod(
 }
 
 /**
- * Get site name from settings
+ * Get a path of a site
  */
-export async function getSiteName(db: D1Database): Promise<string> {
+export async function getPath(
+  db: D1Database,
+  siteId: number,
+  pathId: number
+): Promise<Path | null> {
+  return db.prepare(`
+    SELECT * FROM paths WHERE site_id = ? AND path_id = ?
+  `).bind(siteId, pathId).first<Path>();
+}
+
+/**
+ * Get site name
+ */
+export async function getSiteName(db: D1Database, siteId: number): Promise<string> {
   const result = await db.prepare(`
-    SELECT value FROM settings WHERE key = 'site_name'
-  `).first<{ value: string }>();
+    SELECT name FROM sites WHERE site_id = ?
+  `).bind(siteId).first<{ name: string }>();
 
-  return result?.value || 'Analytics';
+  return result?.name || 'Analytics';
 }
 
 /**
@@ -286,19 +796,21 @@ export async function getSiteName(db: D1Database): Promise<string> {
  */
 export async function getTotalHitsWithGranularity(
   db: D1Database,
+  scope: StatsScope,
   start: string,
   end: string,
   granularity: 'hour' | 'day' = 'hour'
 ): Promise<{ total: number; timeSeries: TimeSeriesPoint[] }> {
   if (granularity === 'day') {
     // Aggregate by day
+    const where = scopeWhere(scope);
     const result = await db.prepare(`
       SELECT DATE(hour) as time, SUM(total) as count
       FROM hit_counts
-      WHERE hour >= ? AND hour <= ?
+      WHERE ${where.sql} AND hour >= ? AND hour <= ?
       GROUP BY DATE(hour)
       ORDER BY time ASC
-    `).bind(start, end).all<{ time: string; count: number }>();
+    `).bind(...where.params, start, end).all<{ time: string; count: number }>();
 
     const timeSeries = result.results || [];
     const total = timeSeries.reduce((sum, point) => sum + point.count, 0);
@@ -306,7 +818,30 @@ export async function getTotalHitsWithGranularity(
   }
 
   // Default: hourly
-  return getTotalHits(db, start, end);
+  return getTotalHits(db, scope, start, end);
+}
+
+/**
+ * Get hits per day for every day of the period, including days without hits
+ */
+export async function getDailyTotals(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string
+): Promise<number[]> {
+  const { timeSeries } = await getTotalHitsWithGranularity(db, scope, start, end, 'day');
+  const counts = new Map(timeSeries.map(point => [point.time, point.count]));
+
+  const daily: number[] = [];
+  const day = new Date(start.slice(0, 10));
+  const lastDay = new Date(end.slice(0, 10));
+  while (day <= lastDay) {
+    daily.push(counts.get(day.toISOString().slice(0, 10)) || 0);
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+
+  return daily;
 }
 
 /**
@@ -314,6 +849,7 @@ export async function getTotalHitsWithGranularity(
  */
 export async function getTopPagesWithChange(
   db: D1Database,
+  scope: StatsScope,
   start: string,
   end: string,
   limit: number = 10
@@ -326,6 +862,7 @@ export async function getTopPagesWithChange(
   const { prevStart, prevEnd } = getPreviousPeriod(start, end);
 
   // Get current period pages with path_id
+  const where = scopeWhere(scope, 'hc');
   const currentResult = await db.prepare(`
     SELECT
       p.path_id,
@@ -335,11 +872,11 @@ export async function getTopPagesWithChange(
       SUM(hc.total) as total
     FROM hit_counts hc
     JOIN paths p ON hc.path_id = p.path_id
-    WHERE hc.hour >= ? AND hc.hour <= ?
+    WHERE ${where.sql} AND hc.hour >= ? AND hc.hour <= ?
     GROUP BY hc.path_id
     ORDER BY total DESC
     LIMIT ?
-  `).bind(start, end, limit + 1).all<{
+  `).bind(...where.params, start, end, limit + 1).all<{
     path_id: number;
     path: string;
     title: string;
@@ -353,22 +890,21 @@ export async function getTopPagesWithChange(
 
   // Get total count for "X of Y shown"
   const countResult = await db.prepare(`
-    SELECT COUNT(DISTINCT path_id) as count
-    FROM hit_counts
-    WHERE hour >= ? AND hour <= ?
-  `).bind(start, end).first<{ count: number }>();
+    SELECT COUNT(DISTINCT hc.path_id) as count
+    FROM hit_counts hc
+    WHERE ${where.sql} AND hc.hour >= ? AND hc.hour <= ?
+  `).bind(...where.params, start, end).first<{ count: number }>();
   const totalCount = countResult?.count || 0;
 
   // Get previous period totals for comparison
   const prevTotals = new Map<number, number>();
   if (pathIds.length > 0) {
-    const placeholders = pathIds.map(() => '?').join(',');
     const prevResult = await db.prepare(`
       SELECT path_id, SUM(total) as total
       FROM hit_counts
-      WHERE hour >= ? AND hour <= ? AND path_id IN (${placeholders})
+      WHERE hour >= ? AND hour <= ? AND path_id IN (SELECT value FROM json_each(?))
       GROUP BY path_id
-    `).bind(prevStart, prevEnd, ...pathIds).all<{ path_id: number; total: number }>();
+    `).bind(prevStart, prevEnd, JSON.stringify(pathIds)).all<{ path_id: number; total: number }>();
 
     for (const row of prevResult.results || []) {
       prevTotals.set(row.path_id, row.total);
@@ -378,14 +914,13 @@ export async function getTopPagesWithChange(
   // Get sparkline data (daily totals for each path)
   const sparklines = new Map<number, number[]>();
   if (pathIds.length > 0) {
-    const placeholders = pathIds.map(() => '?').join(',');
     const sparkResult = await db.prepare(`
       SELECT path_id, DATE(hour) as day, SUM(total) as count
       FROM hit_counts
-      WHERE hour >= ? AND hour <= ? AND path_id IN (${placeholders})
+      WHERE hour >= ? AND hour <= ? AND path_id IN (SELECT value FROM json_each(?))
       GROUP BY path_id, DATE(hour)
       ORDER BY path_id, day
-    `).bind(start, end, ...pathIds).all<{ path_id: number; day: string; count: number }>();
+    `).bind(start, end, JSON.stringify(pathIds)).all<{ path_id: number; day: string; count: number }>();
 
     // Group by path_id
     for (const row of sparkResult.results || []) {
@@ -422,6 +957,7 @@ export async function getTopPagesWithChange(
  */
 export async function getTotalsWithChange(
   db: D1Database,
+  scope: StatsScope,
   start: string,
   end: string
 ): Promise<{
@@ -434,14 +970,14 @@ export async function getTotalsWithChange(
 
   // Get current totals
   const [currentHits, currentVisitors] = await Promise.all([
-    getTotalHits(db, start, end),
-    getTotalVisitors(db, start, end)
+    getTotalHits(db, scope, start, end),
+    getTotalVisitors(db, scope, start, end)
   ]);
 
   // Get previous totals
   const [prevHits, prevVisitors] = await Promise.all([
-    getTotalHits(db, prevStart, prevEnd),
-    getTotalVisitors(db, prevStart, prevEnd)
+    getTotalHits(db, scope, prevStart, prevEnd),
+    getTotalVisitors(db, scope, prevStart, prevEnd)
   ]);
 
   return {
@@ -456,6 +992,108 @@ export async function getTotalsWithChange(
   };
 }
 
+/**
+ * Get bounce rate, pages per session and average session duration with
+ * comparison to the previous period
+ */
+export async function getEngagementWithChange(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string
+): Promise<Engagement> {
+  const { prevStart, prevEnd } = getPreviousPeriod(start, end);
+
+  const [current, prev] = await Promise.all([
+    getSessionTotals(db, scope, start, end),
+    getSessionTotals(db, scope, prevStart, prevEnd)
+  ]);
+
+  const bounceRate = (t: SessionTotals) => t.sessions > 0 ? (t.bounces / t.sessions) * 100 : null;
+  const pagesPerSession = (t: SessionTotals) => t.sessions > 0 ? t.pageviews / t.sessions : null;
+  const avgDuration = (t: SessionTotals) => t.sessions > 0 ? t.duration / t.sessions : null;
+
+  return {
+    sessions: current.sessions,
+    bounceRate: bounceRate(current),
+    bounceRateChange: percentChange(bounceRate(current), bounceRate(prev)),
+    pagesPerSession: pagesPerSession(current),
+    pagesPerSessionChange: percentChange(pagesPerSession(current), pagesPerSession(prev)),
+    avgDuration: avgDuration(current),
+    avgDurationChange: percentChange(avgDuration(current), avgDuration(prev))
+  };
+}
+
+/**
+ * Get conversions and conversion rate for each of a site's goals, with
+ * comparison to the previous period
+ * Goals are counted site-wide; the filter and detail view don't apply.
+ */
+export async function getGoalStats(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string
+): Promise<GoalStats[]> {
+  const goals = await db.prepare(`
+    SELECT goal_id, name FROM goals WHERE site_id = ? ORDER BY goal_id ASC
+  `).bind(scope.siteId).all<{ goal_id: number; name: string }>();
+
+  if (!goals.results || goals.results.length === 0) {
+    return [];
+  }
+
+  const { prevStart, prevEnd } = getPreviousPeriod(start, end);
+
+  const [current, prev, visitors] = await Promise.all([
+    getGoalConversions(db, scope.siteId, start, end),
+    getGoalConversions(db, scope.siteId, prevStart, prevEnd),
+    getTotalVisitors(db, { siteId: scope.siteId }, start, end)
+  ]);
+
+  return goals.results.map(goal => {
+    const conversions = current.get(goal.goal_id) || 0;
+    return {
+      goal_id: goal.goal_id,
+      name: goal.name,
+      conversions,
+      conversionsChange: percentChange(conversions, prev.get(goal.goal_id) || 0),
+      rate: visitors > 0 ? Math.min((conversions / visitors) * 100, 100) : null
+    };
+  });
+}
+
+/**
+ * Get the sessions reaching each step of a site's funnels
+ * Funnels are computed site-wide from the raw hits; the filter and detail
+ * view don't apply.
+ */
+export async function getFunnelStats(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string
+): Promise<FunnelStats[]> {
+  const funnels = await getFunnels(db, scope.siteId);
+
+  return Promise.all(funnels.map(async funnel => {
+    const reached = await getFunnelSteps(db, scope.siteId, funnel.steps, funnel.window_minutes, start, end);
+    const first = reached[0] || 0;
+
+    return {
+      funnel_id: funnel.funnel_id,
+      name: funnel.name,
+      window_minutes: funnel.window_minutes,
+      steps: funnel.steps.map((step, i) => ({
+        label: formatFunnelStep(step),
+        sessions: reached[i],
+        rate: first > 0 ? (reached[i] / first) * 100 : 0,
+        dropoff: i > 0 ? reached[i - 1] - reached[i] : 0
+      }))
+    };
+  }));
+}
+
 /**
  * Calculate previous period dates (same duration, shifted back)
  */
@@ -558,3 +1196,267 @@ export function parsePeriodExtended(
     filter: filterParam
   };
 }
+
+/**
+ * Build the query scope from the site and the filter, path_id and events
+ * parameters
+ */
+export function parseScope(siteId: number, searchParams: URLSearchParams): StatsScope {
+  const pathId = parseInt(searchParams.get('path_id') || '', 10);
+
+  // A single page replaces the filter, and is a page or an event itself
+  if (pathId > 0) {
+    return { siteId, pathId };
+  }
+
+  const eventsParam = searchParams.get('events');
+  const events = eventsParam === 'only' ? 'only' : eventsParam === '1' ? 'include' : undefined;
+
+  return { siteId, filter: searchParams.get('filter') || undefined, events };
+}
+
+/**
+ * Get pages by entries or exits, with the rate relative to their pageviews
+ */
+async function getEntryExitPages(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string,
+  column: 'entries' | 'exits',
+  limit: number
+): Promise<EntryExitStats[]> {
+  const startDay = start.slice(0, 10);
+  const endDay = end.slice(0, 10);
+
+  const where = scopeWhere(scope, 'es');
+  const result = await db.prepare(`
+    SELECT
+      p.path_id,
+      p.path,
+      p.title,
+      SUM(es.${column}) as count,
+      (
+        SELECT COALESCE(SUM(hc.total), 0) FROM hit_counts hc
+        WHERE hc.path_id = es.path_id AND hc.hour >= ? AND hc.hour <= ?
+      ) as pageviews
+    FROM entry_exit_stats es
+    JOIN paths p ON es.path_id = p.path_id
+    WHERE ${where.sql} AND es.day >= ? AND es.day <= ?
+    GROUP BY es.path_id
+    HAVING count > 0
+    ORDER BY count DESC
+    LIMIT ?
+  `).bind(start, end, ...where.params, startDay, endDay, limit).all<Omit<EntryExitStats, 'rate'>>();
+
+  return (result.results || []).map(row => ({
+    ...row,
+    rate: row.pageviews > 0 ? Math.min(Math.round((row.count / row.pageviews) * 100), 100) : 0
+  }));
+}
+
+/**
+ * Count the sessions that reached each goal, by goal_id
+ * A session converts once per goal, however many matching pages it saw.
+ */
+async function getGoalConversions(
+  db: D1Database,
+  siteId: number,
+  start: string,
+  end: string
+): Promise<Map<number, number>> {
+  const result = await db.prepare(`
+    SELECT
+      g.goal_id,
+      COUNT(DISTINCT h.session) as conversions
+    FROM goals g
+    JOIN paths p ON p.site_id = g.site_id AND ${pathMatches('p', 'g')}
+    JOIN hits h ON h.path_id = p.path_id
+    WHERE g.site_id = ?
+      AND h.created_at >= ? AND h.created_at <= ?
+      AND h.first_visit = 1 AND h.session IS NOT NULL
+    GROUP BY g.goal_id
+  `).bind(siteId, start, end).all<{ goal_id: number; conversions: number }>();
+
+  return new Map((result.results || []).map(row => [row.goal_id, row.conversions]));
+}
+
+/**
+ * Count the sessions reaching each step of a funnel, in order and within
+ * the window from the first step
+ *
+ * Only hits on step pages of sessions that reached the first step are
+ * read. Each of a session's first-step hits is tried as a start, and the
+ * furthest it got counts.
+ */
+async function getFunnelSteps(
+  db: D1Database,
+  siteId: number,
+  steps: FunnelStep[],
+  windowMinutes: number,
+  start: string,
+  end: string
+): Promise<number[]> {
+  const values = steps.map(() => '(?, ?, ?, ?)').join(', ');
+  const params = steps.flatMap((step, i) => [i, step.kind, step.match_type, step.value]);
+
+  const result = await db.prepare(`
+    WITH steps(step, kind, match_type, value) AS (VALUES ${values}),
+    step_paths AS (
+      SELECT s.step, p.path_id
+      FROM steps s
+      JOIN paths p ON p.site_id = ? AND ${pathMatches('p', 's')}
+    )
+    SELECT h.session, sp.step, h.created_at
+    FROM hits h
+    JOIN step_paths sp ON sp.path_id = h.path_id
+    WHERE h.site_id = ? AND h.created_at >= ? AND h.created_at <= ?
+      AND h.session IN (
+        SELECT session FROM hits
+        WHERE site_id = ? AND created_at >= ? AND created_at <= ?
+          AND path_id IN (SELECT path_id FROM step_paths WHERE step = 0)
+      )
+    ORDER BY h.session, h.created_at, sp.step
+  `).bind(...params, siteId, siteId, start, end, siteId, start, end)
+    .all<{ session: string; step: number; created_at: string }>();
+
+  // Group the step hits by session, in time order
+  const sessions = new Map<string, { step: number; time: number }[]>();
+  for (const row of result.results || []) {
+    const hits = sessions.get(row.session) || [];
+    hits.push({ step: row.step, time: Date.parse(row.created_at) });
+    sessions.set(row.session, hits);
+  }
+
+  const windowMs = windowMinutes * 60 * 1000;
+  const reached = steps.map(() => 0);
+
+  for (const hits of sessions.values()) {
+    let furthest = 0;
+    hits.forEach((hit, i) => {
+      if (hit.step !== 0) return;
+      let next = 1;
+      for (const later of hits.slice(i + 1)) {
+        if (next === steps.length || later.time - hit.time > windowMs) break;
+        if (later.step === next) next++;
+      }
+      furthest = Math.max(furthest, next);
+    });
+    for (let i = 0; i < furthest; i++) {
+      reached[i]++;
+    }
+  }
+
+  return reached;
+}
+
+/**
+ * SQL condition matching a path row against a goal or funnel step row
+ * (kind, match_type, value)
+ */
+function pathMatches(path: string, rule: string): string {
+  return `${path}.event = CASE ${rule}.kind WHEN 'event' THEN 1 ELSE 0 END
+      AND CASE ${rule}.match_type WHEN 'pattern' THEN ${path}.path GLOB ${rule}.value ELSE ${path}.path = ${rule}.value END`;
+}
+
+interface SessionTotals {
+  sessions: number;
+  bounces: number;
+  pageviews: number;
+  duration: number; // seconds, summed over sessions
+}
+
+/**
+ * Count sessions, bounces, pageviews and duration from the visits table
+ *
+ * A session hash is stable for a whole day, so visits are split wherever
+ * hits are more than SESSION_GAP_SECONDS apart when they are recorded.
+ * The duration is the time from the first to the last hit of a visit.
+ * With a filter or single page, visits that include a matching hit are
+ * counted with all their hits.
+ */
+async function getSessionTotals(
+  db: D1Database,
+  scope: StatsScope,
+  start: string,
+  end: string
+): Promise<SessionTotals> {
+  // Hits counted as pageviews, following the events toggle
+  const hits = scope.events === 'include' ? '(v.pageviews + v.events)'
+    : scope.events === 'only' ? 'v.events'
+    : 'v.pageviews';
+
+  const scoped = scope.filter || scope.pathId;
+  const where = scopeWhere(scope, 'h');
+  const visitFilter = scoped
+    ? `AND EXISTS (
+        SELECT 1 FROM hits h
+        WHERE h.session = v.session AND h.created_at >= v.first_at AND h.created_at <= v.last_at AND ${where.sql}
+      )`
+    : '';
+
+  const result = await db.prepare(`
+    SELECT
+      COUNT(*) as sessions,
+      SUM(CASE WHEN ${hits} = 1 THEN 1 ELSE 0 END) as bounces,
+      SUM(${hits}) as pageviews,
+      SUM(v.duration) as duration
+    FROM visits v
+    WHERE v.site_id = ? AND v.first_at >= ? AND v.first_at <= ? AND ${hits} > 0 ${visitFilter}
+  `).bind(scope.siteId, start, end, ...(scoped ? where.params : [])).first<SessionTotals>();
+
+  return {
+    sessions: result?.sessions || 0,
+    bounces: result?.bounces || 0,
+    pageviews: result?.pageviews || 0,
+    duration: result?.duration || 0
+  };
+}
+
+/**
+ * Percentage change, null without a previous value to compare with
+ */
+function percentChange(current: number | null, previous: number | null): number | null {
+  if (current === null || previous === null || previous === 0) {
+    return null;
+  }
+  return Math.round(((current - previous) / previous) * 100);
+}
+
+/**
+ * Build the WHERE condition limiting a stats table to the scope's site,
+ * page, path filter and events
+ */
+function scopeWhere(
+  scope: StatsScope,
+  alias?: string
+): { sql: string; params: (string | number)[] } {
+  const column = (name: string) => alias ? `${alias}.${name}` : name;
+  const conditions = [`${column('site_id')} = ?`];
+  const params: (string | number)[] = [scope.siteId];
+
+  if (scope.pathId) {
+    conditions.push(`${column('path_id')} = ?`);
+    params.push(scope.pathId);
+  }
+
+  if (scope.filter) {
+    // Case-insensitive substring match on path or title
+    const pattern = `%${scope.filter.replace(/[\\%_]/g, '\\$&')}%`;
+    conditions.push(`${column('path_id')} IN (
+      SELECT path_id FROM paths
+      WHERE site_id = ? AND (path LIKE ? ESCAPE '\\' OR title LIKE ? ESCAPE '\\')
+    )`);
+    params.push(scope.siteId, pattern, pattern);
+  }
+
+  // A single page is shown whether it is an event or not
+  if (!scope.pathId && scope.events !== 'include') {
+    conditions.push(`${column('path_id')} IN (
+      SELECT path_id FROM paths WHERE site_id = ? AND event = ?
+    )`);
+    params.push(scope.siteId, scope.events === 'only' ? 1 : 0);
+  }
+
+  return { sql: conditions.join(' AND '), params };
+}
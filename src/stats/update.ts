@@ -4,7 +4,10 @@
  * Updates all aggregation tables when a hit is recorded
  */
 
-import type { ProcessedHit } from '../types';
+import type { ProcessedHit, ProcessedExit, ProcessedError, VitalMetric } from '../types';
+import { TIME_BUCKETS, bucketIndex, emptyHistogram } from '../lib/histogram';
+import { VITALS } from '../lib/vitals';
+import { SESSION_GAP_SECONDS } from '../lib/session';
 
 /**
  * Update all stats tables for a processed hit
@@ -14,20 +17,33 @@ export async function updateStats(
   db: D1Database,
   hit: ProcessedHit
 ): Promise<void> {
+  await db.batch(buildStatsStatements(db, hit));
+}
+
+/**
+ * Build the statements that record a hit and update every stats table
+ * Callers batch these, possibly together with other hits' statements
+ */
+export function buildStatsStatements(
+  db: D1Database,
+  hit: ProcessedHit
+): D1PreparedStatement[] {
   const statements: D1PreparedStatement[] = [];
 
   // 1. Insert raw hit
   statements.push(
     db.prepare(`
-      INSERT INTO hits (path_id, ref_id, browser_id, system_id, session, first_visit, width, location, language, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO hits (site_id, path_id, ref_id, browser_id, system_id, session, first_visit, first_hit, width, location, language, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
+      hit.siteId,
       hit.pathId,
       hit.refId,
       hit.browserId,
       hit.systemId,
       hit.session,
       hit.firstVisit ? 1 : 0,
+      hit.firstHit ? 1 : 0,
       hit.width,
       hit.location,
       hit.language,
@@ -38,18 +54,18 @@ export async function updateStats(
   // 2. Update hit_counts (hourly aggregation)
   statements.push(
     db.prepare(`
-      INSERT INTO hit_counts (path_id, hour, total)
-      VALUES (?, ?, 1)
+      INSERT INTO hit_counts (site_id, path_id, hour, total)
+      VALUES (?, ?, ?, 1)
       ON CONFLICT(path_id, hour) DO UPDATE SET total = total + 1
-    `).bind(hit.pathId, hit.hour)
+    `).bind(hit.siteId, hit.pathId, hit.hour)
   );
 
   // 3. Update hit_stats (daily with hourly breakdown)
   const hourIndex = hit.createdAt.getUTCHours();
   statements.push(
     db.prepare(`
-      INSERT INTO hit_stats (path_id, day, stats)
-      VALUES (?, ?, ?)
+      INSERT INTO hit_stats (site_id, path_id, day, stats)
+      VALUES (?, ?, ?, ?)
       ON CONFLICT(path_id, day) DO UPDATE SET
         stats = json_replace(
           stats,
@@ -57,6 +73,7 @@ export async function updateStats(
           COALESCE(json_extract(stats, '$[' || ? || ']'), 0) + 1
         )
     `).bind(
+      hit.siteId,
       hit.pathId,
       hit.day,
       JSON.stringify(createHourlyArray(hourIndex)),
@@ -65,66 +82,320 @@ export async function updateStats(
     )
   );
 
+  // 4. Update visitor_stats (unique visitors per site and day)
+  if (hit.firstHit) {
+    statements.push(
+      db.prepare(`
+        INSERT INTO visitor_stats (site_id, day, count)
+        VALUES (?, ?, 1)
+        ON CONFLICT(site_id, day) DO UPDATE SET count = count + 1
+      `).bind(hit.siteId, hit.day)
+    );
+  }
+
+  // 5. Update entry_exit_stats: the first pageview of the day enters on
+  // this page, and this page replaces the previous one as the session's
+  // exit. Events are neither entries nor exits.
+  if (hit.firstHit) {
+    statements.push(
+      db.prepare(`
+        INSERT INTO entry_exit_stats (site_id, path_id, day, entries, exits)
+        VALUES (?, ?, ?, 1, 0)
+        ON CONFLICT(path_id, day) DO UPDATE SET entries = entries + 1
+      `).bind(hit.siteId, hit.pathId, hit.day)
+    );
+  }
+  if (!hit.event && hit.previousPathId !== hit.pathId) {
+    if (hit.previousPathId !== null) {
+      statements.push(
+        db.prepare(`
+          UPDATE entry_exit_stats SET exits = MAX(exits - 1, 0)
+          WHERE path_id = ? AND day = ?
+        `).bind(hit.previousPathId, hit.day)
+      );
+    }
+    statements.push(
+      db.prepare(`
+        INSERT INTO entry_exit_stats (site_id, path_id, day, entries, exits)
+        VALUES (?, ?, ?, 0, 1)
+        ON CONFLICT(path_id, day) DO UPDATE SET exits = exits + 1
+      `).bind(hit.siteId, hit.pathId, hit.day)
+    );
+  }
+
   // Only update dimension stats on first visit to avoid inflating numbers
   if (hit.firstVisit) {
-    // 4. Update ref_counts (only count referrer on first visit)
+    // 6. Update ref_counts (only count referrer on first visit)
     if (hit.refId > 1) { // Skip empty referrer (id=1)
       statements.push(
         db.prepare(`
-          INSERT INTO ref_counts (path_id, ref_id, hour, total)
-          VALUES (?, ?, ?, 1)
+          INSERT INTO ref_counts (site_id, path_id, ref_id, hour, total)
+          VALUES (?, ?, ?, ?, 1)
           ON CONFLICT(path_id, ref_id, hour) DO UPDATE SET total = total + 1
-        `).bind(hit.pathId, hit.refId, hit.hour)
+        `).bind(hit.siteId, hit.pathId, hit.refId, hit.hour)
       );
     }
 
-    // 5. Update browser_stats
+    // 7. Update browser_stats
     if (hit.browserId > 1) { // Skip unknown browser
       statements.push(
         db.prepare(`
-          INSERT INTO browser_stats (path_id, browser_id, day, count)
-          VALUES (?, ?, ?, 1)
+          INSERT INTO browser_stats (site_id, path_id, browser_id, day, count)
+          VALUES (?, ?, ?, ?, 1)
           ON CONFLICT(path_id, browser_id, day) DO UPDATE SET count = count + 1
-        `).bind(hit.pathId, hit.browserId, hit.day)
+        `).bind(hit.siteId, hit.pathId, hit.browserId, hit.day)
       );
     }
 
-    // 6. Update system_stats
+    // 8. Update system_stats
     if (hit.systemId > 1) { // Skip unknown system
       statements.push(
         db.prepare(`
-          INSERT INTO system_stats (path_id, system_id, day, count)
-          VALUES (?, ?, ?, 1)
+          INSERT INTO system_stats (site_id, path_id, system_id, day, count)
+          VALUES (?, ?, ?, ?, 1)
           ON CONFLICT(path_id, system_id, day) DO UPDATE SET count = count + 1
-        `).bind(hit.pathId, hit.systemId, hit.day)
+        `).bind(hit.siteId, hit.pathId, hit.systemId, hit.day)
       );
     }
 
-    // 7. Update location_stats
+    // 9. Update location_stats
     if (hit.location) {
       statements.push(
         db.prepare(`
-          INSERT INTO location_stats (path_id, day, location, count)
-          VALUES (?, ?, ?, 1)
+          INSERT INTO location_stats (site_id, path_id, day, location, count)
+          VALUES (?, ?, ?, ?, 1)
           ON CONFLICT(path_id, day, location) DO UPDATE SET count = count + 1
-        `).bind(hit.pathId, hit.day, hit.location)
+        `).bind(hit.siteId, hit.pathId, hit.day, hit.location)
       );
     }
 
-    // 8. Update size_stats
+    // 10. Update region_stats
+    if (hit.region) {
+      statements.push(
+        db.prepare(`
+          INSERT INTO region_stats (site_id, path_id, day, region, name, count)
+          VALUES (?, ?, ?, ?, ?, 1)
+          ON CONFLICT(path_id, day, region) DO UPDATE SET
+            count = count + 1,
+            name = CASE WHEN excluded.name != '' THEN excluded.name ELSE name END
+        `).bind(hit.siteId, hit.pathId, hit.day, hit.region, hit.regionName)
+      );
+    }
+
+    // 11. Update size_stats
     if (hit.width !== null && hit.width > 0) {
       statements.push(
         db.prepare(`
-          INSERT INTO size_stats (path_id, day, width, count)
-          VALUES (?, ?, ?, 1)
+          INSERT INTO size_stats (site_id, path_id, day, width, count)
+          VALUES (?, ?, ?, ?, 1)
           ON CONFLICT(path_id, day, width) DO UPDATE SET count = count + 1
-        `).bind(hit.pathId, hit.day, hit.width)
+        `).bind(hit.siteId, hit.pathId, hit.day, hit.width)
+      );
+    }
+
+    // 12. Update language_stats
+    if (hit.language) {
+      statements.push(
+        db.prepare(`
+          INSERT INTO language_stats (site_id, path_id, day, language, count)
+          VALUES (?, ?, ?, ?, 1)
+          ON CONFLICT(path_id, day, language) DO UPDATE SET count = count + 1
+        `).bind(hit.siteId, hit.pathId, hit.day, hit.language)
+      );
+    }
+
+    // 13. Update campaign_stats
+    if (hit.campaignId > 1) { // Skip hits without a campaign
+      statements.push(
+        db.prepare(`
+          INSERT INTO campaign_stats (site_id, path_id, campaign_id, day, count)
+          VALUES (?, ?, ?, ?, 1)
+          ON CONFLICT(path_id, campaign_id, day) DO UPDATE SET count = count + 1
+        `).bind(hit.siteId, hit.pathId, hit.campaignId, hit.day)
+      );
+    }
+  }
+
+  // 14. Update prop_stats (every event hit counts, like the event itself)
+  for (const propId of hit.propIds) {
+    statements.push(
+      db.prepare(`
+        INSERT INTO prop_stats (site_id, path_id, prop_id, day, count)
+        VALUES (?, ?, ?, ?, 1)
+        ON CONFLICT(path_id, prop_id, day) DO UPDATE SET count = count + 1
+      `).bind(hit.siteId, hit.pathId, propId, hit.day)
+    );
+  }
+
+  // 15. Update visits: extend the session's latest visit, or start a new
+  // one when its last hit is more than SESSION_GAP_SECONDS ago
+  const createdAt = hit.createdAt.toISOString();
+  const gapStart = new Date(hit.createdAt.getTime() - SESSION_GAP_SECONDS * 1000).toISOString();
+  statements.push(
+    db.prepare(`
+      UPDATE visits SET
+        pageviews = pageviews + ?,
+        events = events + ?,
+        duration = CAST(ROUND((julianday(?) - julianday(first_at)) * 86400) AS INTEGER),
+        last_at = ?
+      WHERE visit_id = (
+        SELECT visit_id FROM visits
+        WHERE session = ? AND site_id = ?
+        ORDER BY first_at DESC
+        LIMIT 1
+      ) AND last_at >= ?
+    `).bind(hit.event ? 0 : 1, hit.event ? 1 : 0, createdAt, createdAt, hit.session, hit.siteId, gapStart),
+    db.prepare(`
+      INSERT INTO visits (site_id, session, first_at, last_at, pageviews, events, duration)
+      SELECT ?, ?, ?, ?, ?, ?, 0
+      WHERE changes() = 0
+    `).bind(hit.siteId, hit.session, createdAt, createdAt, hit.event ? 0 : 1, hit.event ? 1 : 0)
+  );
+
+  return statements;
+}
+
+/**
+ * Record an exit beacon on the pageview it reports on
+ * Beacons are sent again when a page is shown again, with the total so far,
+ * so only increases are applied.
+ */
+export async function updateExitStats(
+  db: D1Database,
+  exit: ProcessedExit
+): Promise<void> {
+  const hit = await db.prepare(`
+    SELECT hit_id, engaged_ms, scroll_depth
+    FROM hits
+    WHERE session = ? AND path_id = ? AND created_at >= ?
+    ORDER BY hit_id DESC
+    LIMIT 1
+  `).bind(exit.session, exit.pathId, exit.day).first<{
+    hit_id: number;
+    engaged_ms: number;
+    scroll_depth: number | null;
+  }>();
+  if (!hit) return;
+
+  const statements: D1PreparedStatement[] = [];
+
+  // 1. Update time_stats, moving a pageview that was already counted to
+  // its new bucket
+  if (exit.engagedMs !== null && exit.engagedMs > hit.engaged_ms) {
+    const bucket = bucketIndex(TIME_BUCKETS, exit.engagedMs);
+    statements.push(
+      db.prepare('UPDATE hits SET engaged_ms = ? WHERE hit_id = ?').bind(exit.engagedMs, hit.hit_id)
+    );
+
+    if (hit.engaged_ms === 0) {
+      const histogram = emptyHistogram(TIME_BUCKETS);
+      histogram[bucket] = 1;
+      statements.push(
+        db.prepare(`
+          INSERT INTO time_stats (site_id, path_id, day, count, total_ms, histogram)
+          VALUES (?, ?, ?, 1, ?, ?)
+          ON CONFLICT(path_id, day) DO UPDATE SET
+            count = count + 1,
+            total_ms = total_ms + excluded.total_ms,
+            histogram = json_replace(
+              histogram,
+              '$[' || ? || ']',
+              COALESCE(json_extract(histogram, '$[' || ? || ']'), 0) + 1
+            )
+        `).bind(exit.siteId, exit.pathId, exit.day, exit.engagedMs, JSON.stringify(histogram), bucket, bucket)
+      );
+    } else {
+      const previousBucket = bucketIndex(TIME_BUCKETS, hit.engaged_ms);
+      statements.push(
+        db.prepare(`
+          UPDATE time_stats SET
+            total_ms = total_ms + ?,
+            histogram = CASE WHEN ? = ? THEN histogram ELSE json_replace(
+              histogram,
+              '$[' || ? || ']',
+              MAX(COALESCE(json_extract(histogram, '$[' || ? || ']'), 0) - 1, 0),
+              '$[' || ? || ']',
+              COALESCE(json_extract(histogram, '$[' || ? || ']'), 0) + 1
+            ) END
+          WHERE path_id = ? AND day = ?
+        `).bind(
+          exit.engagedMs - hit.engaged_ms,
+          previousBucket,
+          bucket,
+          previousBucket,
+          previousBucket,
+          bucket,
+          bucket,
+          exit.pathId,
+          exit.day
+        )
       );
     }
   }
 
-  // Execute all updates in a batch
-  await db.batch(statements);
+  // 2. Update scroll_stats, moving a pageview that was already counted to
+  // its deeper depth
+  if (exit.scrollDepth !== null && (hit.scroll_depth === null || exit.scrollDepth > hit.scroll_depth)) {
+    statements.push(
+      db.prepare('UPDATE hits SET scroll_depth = ? WHERE hit_id = ?').bind(exit.scrollDepth, hit.hit_id)
+    );
+
+    if (hit.scroll_depth !== null) {
+      statements.push(
+        db.prepare(`
+          UPDATE scroll_stats SET count = MAX(count - 1, 0)
+          WHERE path_id = ? AND day = ? AND depth = ?
+        `).bind(exit.pathId, exit.day, hit.scroll_depth)
+      );
+    }
+    statements.push(
+      db.prepare(`
+        INSERT INTO scroll_stats (site_id, path_id, day, depth, count)
+        VALUES (?, ?, ?, ?, 1)
+        ON CONFLICT(path_id, day, depth) DO UPDATE SET count = count + 1
+      `).bind(exit.siteId, exit.pathId, exit.day, exit.scrollDepth)
+    );
+  }
+
+  // 3. Update vitals_stats
+  for (const [metric, value] of Object.entries(exit.vitals) as [VitalMetric, number][]) {
+    const buckets = VITALS[metric].buckets;
+    // Thresholds are inclusive ("at most 2500ms is good"), and so are the bounds
+    const bucket = bucketIndex(buckets, value, true);
+    const histogram = emptyHistogram(buckets);
+    histogram[bucket] = 1;
+    statements.push(
+      db.prepare(`
+        INSERT INTO vitals_stats (site_id, path_id, day, metric, count, histogram)
+        VALUES (?, ?, ?, ?, 1, ?)
+        ON CONFLICT(path_id, day, metric) DO UPDATE SET
+          count = count + 1,
+          histogram = json_replace(
+            histogram,
+            '$[' || ? || ']',
+            COALESCE(json_extract(histogram, '$[' || ? || ']'), 0) + 1
+          )
+      `).bind(exit.siteId, exit.pathId, exit.day, metric, JSON.stringify(histogram), bucket, bucket)
+    );
+  }
+
+  if (statements.length > 0) {
+    await db.batch(statements);
+  }
+}
+
+/**
+ * Count a JavaScript error report
+ */
+export async function updateErrorStats(
+  db: D1Database,
+  error: ProcessedError
+): Promise<void> {
+  await db.prepare(`
+    INSERT INTO error_stats (site_id, error_id, path_id, browser_id, system_id, day, count)
+    VALUES (?, ?, ?, ?, ?, ?, 1)
+    ON CONFLICT(error_id, path_id, browser_id, system_id, day) DO UPDATE SET count = count + 1
+  `).bind(error.siteId, error.errorId, error.pathId, error.browserId, error.systemId, error.day).run();
 }
 
 /**
@@ -8,8 +8,90 @@ export interface Env {
 }
 
 // Database row types
+export interface Site {
+  site_id: number;
+  code: string;
+  host: string;
+  name: string;
+  collect_regions: number; // 1 to record ISO 3166-2 regions
+  public: number; // 1 to show a read-only dashboard at /share/<code>
+  created_at: string;
+}
+
+// API token permission scopes
+export type TokenScope = 'stats' | 'export' | 'settings';
+
+export interface ApiToken {
+  token_id: number;
+  name: string;
+  prefix: string;
+  scopes: TokenScope[];
+  created_at: string;
+  last_used_at: string | null;
+}
+
+// Dashboard widgets a share link can be limited to
+export type DashboardWidget =
+  | 'pages' | 'events' | 'goals' | 'funnels' | 'outbound' | 'entries' | 'exits' | 'time'
+  | 'vitals' | 'errors' | 'refs' | 'browsers' | 'systems' | 'locations' | 'sizes' | 'languages' | 'campaigns';
+
+// Secret read-only link to a site's dashboard
+export interface Share {
+  share_id: number;
+  site_id: number;
+  name: string;
+  prefix: string;
+  widgets: DashboardWidget[]; // empty = all widgets
+  expires_at: string | null;
+  created_at: string;
+}
+
+// Goals match a path or an event name, exactly or by GLOB pattern
+export type GoalKind = 'path' | 'event';
+export type GoalMatch = 'exact' | 'pattern';
+
+export interface Goal {
+  goal_id: number;
+  site_id: number;
+  name: string;
+  kind: GoalKind;
+  match_type: GoalMatch;
+  value: string;
+  created_at: string;
+}
+
+// Funnel steps are matched like goals, in order
+export interface FunnelStep {
+  kind: GoalKind;
+  match_type: GoalMatch;
+  value: string;
+}
+
+export interface Funnel {
+  funnel_id: number;
+  site_id: number;
+  name: string;
+  steps: FunnelStep[];
+  window_minutes: number;
+  created_at: string;
+}
+
+export interface ImportJob {
+  import_id: number;
+  site_id: number;
+  filename: string;
+  total_rows: number;
+  next_row: number;
+  imported: number;
+  skipped: number;
+  status: 'running' | 'done';
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Path {
   path_id: number;
+  site_id: number;
   path: string;
   title: string;
   event: number;
@@ -21,6 +103,13 @@ export interface Ref {
   ref_scheme: string;
 }
 
+export interface Campaign {
+  campaign_id: number;
+  source: string;
+  medium: string;
+  campaign: string;
+}
+
 export interface Browser {
   browser_id: number;
   name: string;
@@ -35,6 +124,7 @@ export interface System {
 
 export interface Hit {
   hit_id: number;
+  site_id: number;
   path_id: number;
   ref_id: number;
   browser_id: number;
@@ -48,12 +138,14 @@ export interface Hit {
 }
 
 export interface HitCount {
+  site_id: number;
   path_id: number;
   hour: string;
   total: number;
 }
 
 export interface HitStat {
+  site_id: number;
   path_id: number;
   day: string;
   stats: string; // JSON array
@@ -67,33 +159,95 @@ export interface HitParams {
   e?: string;      // event flag ('true' or '1')
   s?: string;      // screen width
   b?: string;      // bot indicator
-  q?: string;      // query string (for utm params)
+  q?: string;      // page query string (for utm params)
+  pr?: string;     // event properties (JSON object)
+  x?: string;      // exit beacon flag ('1'): reports on the pageview of path p
+  tm?: string;     // engaged time in milliseconds (exit beacon)
+  sd?: string;     // scroll depth: deepest threshold reached in percent (exit beacon)
+  lcp?: string;    // Largest Contentful Paint in milliseconds (exit beacon)
+  inp?: string;    // Interaction to Next Paint in milliseconds (exit beacon)
+  cls?: string;    // Cumulative Layout Shift score (exit beacon)
+  ttfb?: string;   // Time to First Byte in milliseconds (exit beacon)
+  site?: string;   // site code (data-site on count.js)
   rnd?: string;    // cache buster (ignored)
 }
 
 // Processed hit ready for DB
 export interface ProcessedHit {
+  siteId: number;
   pathId: number;
   refId: number;
   browserId: number;
   systemId: number;
+  campaignId: number;
+  propIds: number[];   // event properties
+  event: boolean;
   session: string;
-  firstVisit: boolean;
+  firstVisit: boolean; // first hit of the session on this path
+  firstHit: boolean;   // first pageview of the session on this site today
+  previousPathId: number | null; // page of the session's previous pageview today, null on the first
   width: number | null;
   location: string;
+  region: string;     // ISO 3166-2 code, '' when not collected
+  regionName: string;
   language: string | null;
   createdAt: Date;
   hour: string;
   day: string;
 }
 
+// JavaScript error report input (/api/error)
+export interface ErrorParams {
+  p: string;       // page path (required)
+  m: string;       // error message (required)
+  src?: string;    // script URL
+  st?: string;     // stack signature, one frame per line
+  b?: string;      // bot indicator
+  site?: string;   // site code (data-site on count.js)
+}
+
+// Error report ready for DB
+export interface ProcessedError {
+  siteId: number;
+  errorId: number;
+  pathId: number;
+  browserId: number;
+  systemId: number;
+  day: string;
+}
+
+// Core Web Vitals, rated against Google's thresholds
+export type VitalMetric = 'lcp' | 'inp' | 'cls' | 'ttfb';
+export type VitalRating = 'good' | 'needs-improvement' | 'poor';
+
+// Exit beacon ready for DB, attributed to the session's latest pageview of the path
+export interface ProcessedExit {
+  siteId: number;
+  pathId: number;
+  session: string;
+  engagedMs: number | null;   // null when not reported
+  scrollDepth: number | null; // 0, 25, 50, 75 or 100; null when not reported
+  vitals: Partial<Record<VitalMetric, number>>; // only on the page load's first beacon
+  day: string;
+}
+
 // Session data stored in KV
 export interface SessionData {
   id: string;
   pathsSeen: number[];
+  visitorDays?: Record<number, string>; // last day the session counted as a visitor, by site_id
+  lastPaths?: Record<number, number>;   // path_id of the session's latest hit today, by site_id
   createdAt: number;
 }
 
+// Hits covered by a dashboard query
+export interface StatsScope {
+  siteId: number;
+  filter?: string; // substring of path or title
+  pathId?: number; // single page for the detail view
+  events?: 'include' | 'only'; // events are left out unless included or selected alone
+}
+
 // Dashboard query results
 export interface PageStats {
   path: string;
@@ -135,29 +289,165 @@ export interface LocationStats {
   count: number;
 }
 
+export interface EntryExitStats {
+  path_id: number;
+  path: string;
+  title: string;
+  count: number;     // entries or exits
+  pageviews: number;
+  rate: number;      // percentage of the page's pageviews
+}
+
+export interface OutboundStats {
+  path_id: number;
+  url: string;   // destination of the link
+  title: string; // link text
+  count: number;
+}
+
+export interface TimeOnPageStats {
+  path_id: number;
+  path: string;
+  title: string;
+  count: number;          // pageviews with a reported time
+  median: number | null;  // milliseconds, estimated from the histogram
+  average: number | null; // milliseconds
+}
+
+export interface ScrollDepthStats {
+  depth: number; // deepest threshold reached, in percent
+  count: number; // pageviews that stopped there
+}
+
+export interface VitalStats {
+  metric: VitalMetric;
+  count: number;               // page loads that reported the metric
+  p75: number | null;          // 75th percentile, estimated from the histogram
+  rating: VitalRating | null;  // rating of the p75, null without data
+}
+
+export interface ErrorStats {
+  error_id: number;
+  message: string;
+  source: string;
+  count: number;
+  pages: { path_id: number; path: string; count: number }[]; // pages throwing it most
+  browsers: { name: string; count: number }[];
+  systems: { name: string; count: number }[];
+}
+
+export interface PropStats {
+  key: string;
+  value: string;
+  count: number;
+}
+
+export interface RegionStats {
+  region: string;
+  name: string;
+  count: number;
+}
+
+export interface LanguageStats {
+  language: string;
+  count: number;
+}
+
+export interface CampaignStats {
+  source: string;
+  medium: string;
+  campaign: string;
+  count: number;
+}
+
+export interface GoalStats {
+  goal_id: number;
+  name: string;
+  conversions: number;            // sessions that reached the goal
+  conversionsChange: number | null;
+  rate: number | null;            // percentage of visitors, null without visitors
+}
+
+export interface FunnelStepStats {
+  label: string;
+  sessions: number; // sessions that reached this step
+  rate: number;     // percentage of sessions that reached the first step
+  dropoff: number;  // sessions lost since the previous step
+}
+
+export interface FunnelStats {
+  funnel_id: number;
+  name: string;
+  window_minutes: number;
+  steps: FunnelStepStats[];
+}
+
+export interface EventStats {
+  total: number;
+  totalChange: number | null;
+  unique: number;             // first times a session sent each event
+  uniqueChange: number | null;
+  daily: number[];            // events per day of the period
+  events: PageWithChange[];
+  totalCount: number;
+}
+
 export interface SizeStats {
   width: number;
   count: number;
 }
 
+// Session engagement, with percentage change versus the previous period
+export interface Engagement {
+  sessions: number;
+  bounceRate: number | null;      // percentage of single-pageview sessions
+  bounceRateChange: number | null;
+  pagesPerSession: number | null;
+  pagesPerSessionChange: number | null;
+  avgDuration: number | null;     // seconds
+  avgDurationChange: number | null;
+}
+
 export interface TimeSeriesPoint {
   time: string;
   count: number;
 }
 
+// How the dashboard is shown: in full, or read-only through a share
+export interface DashboardView {
+  base: string; // path the dashboard form submits to
+  readOnly: boolean; // no site switcher, admin links or exports
+  widgets: DashboardWidget[] | null; // null = all widgets
+}
+
 // Dashboard data
 export interface DashboardData {
   siteName: string;
+  site: Site;
+  sites: Site[];
+  view: DashboardView;
   start: string;
   end: string;
   period: string;
   granularity: 'hour' | 'day';
   filter: string;
+  includeEvents: boolean; // count events as pageviews
+  path: Path | null; // page shown in the detail view
   totalHits: number;
   totalHitsChange: number | null;
   totalVisitors: number;
   totalVisitorsChange: number | null;
+  engagement: Engagement;
+  entryPages: EntryExitStats[];
+  exitPages: EntryExitStats[];
+  goals: GoalStats[];
+  funnels: FunnelStats[];
   timeSeries: TimeSeriesPoint[];
+  events: EventStats | null; // null in the detail view
+  outbound: OutboundStats[];
+  timeOnPage: TimeOnPageStats[];
+  vitals: VitalStats[];
+  errors: ErrorStats[];
   pages: PageWithChange[];
   hasMorePages: boolean;
   totalPagesCount: number;
@@ -165,7 +455,12 @@ export interface DashboardData {
   browsers: BrowserStats[];
   systems: SystemStats[];
   locations: LocationStats[];
+  regions: RegionStats[];
   sizes: SizeStats[];
+  languages: LanguageStats[];
+  campaigns: CampaignStats[];
+  props: PropStats[]; // only in the detail view of an event
+  scrollDepth: ScrollDepthStats[]; // only in the detail view of a page
 }
 
 // Parsed user agent